@@ -0,0 +1,65 @@
+// app/_components/ActivityCalendar.tsx
+import type { ActivitySummary } from "@/lib/dashboard";
+
+const WEEKDAY_LABELS = ["月", "火", "水", "木", "金", "土", "日"];
+
+/** 時間の長さで色の濃さを変える（時間が分からない記録は一番薄い色） */
+function shade(minutes: number, sessions: number, colors: string[]): string {
+  if (sessions === 0) return "bg-foreground/10";
+  if (minutes >= 60) return colors[3];
+  if (minutes >= 30) return colors[2];
+  if (minutes >= 10) return colors[1];
+  return colors[0];
+}
+
+/** ====== 運動・瞑想のカレンダー（列が週、行が曜日）と連続記録 ====== */
+export function ActivityCalendar({
+  title,
+  icon,
+  summary,
+  colors,
+}: {
+  title: string;
+  icon: string;
+  summary: ActivitySummary;
+  colors: string[]; // 薄い順に4段階
+}) {
+  const weeks: ActivitySummary["days"][] = [];
+  for (let i = 0; i < summary.days.length; i += 7) weeks.push(summary.days.slice(i, i + 7));
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between">
+        <h3 className="font-semibold">
+          {icon} {title}
+        </h3>
+        <p className="text-sm">
+          連続 <span className="text-lg font-bold">{summary.streak}</span> 日🔥
+        </p>
+      </div>
+      <p className="text-xs text-foreground/60">
+        期間内 {summary.sessions} 回・合計 {summary.totalMinutes} 分
+      </p>
+      <div className="mt-2 flex gap-1">
+        <div className="flex flex-col gap-1 text-[10px] text-foreground/50">
+          {WEEKDAY_LABELS.map((w) => (
+            <span key={w} className="h-3 leading-3">
+              {w}
+            </span>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0].date} className="flex flex-col gap-1">
+            {week.map((day) => (
+              <div
+                key={day.date}
+                className={`h-3 w-3 rounded-sm ${shade(day.minutes, day.sessions, colors)}`}
+                title={`${day.date} ${day.sessions}回 ${day.minutes}分`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
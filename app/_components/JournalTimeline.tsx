@@ -0,0 +1,66 @@
+// app/_components/JournalTimeline.tsx
+import type { JournalLogRow } from "@/lib/logStore";
+import { formatMood } from "@/lib/journal";
+
+/** ====== ジャーナルの検索フォームとタイムライン（新しい順） ====== */
+export function JournalTimeline({
+  entries,
+  query,
+  hidden,
+}: {
+  entries: JournalLogRow[];
+  query: string;
+  hidden: Record<string, string>; // 検索しても表示中の期間・表示単位を保つ
+}) {
+  return (
+    <div>
+      <form method="get" className="flex gap-2">
+        {Object.entries(hidden).map(([name, value]) => (
+          <input key={name} type="hidden" name={name} value={value} />
+        ))}
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          placeholder="本文・感情・タグで検索（全期間）"
+          className="flex-1 rounded border border-foreground/20 bg-transparent px-3 py-1 text-sm"
+        />
+        <button type="submit" className="rounded bg-foreground px-3 py-1 text-sm text-background">
+          検索
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="mt-4 text-sm text-foreground/60">
+          {query ? `「${query}」を含むジャーナルはありません` : "この期間のジャーナルはありません📭"}
+        </p>
+      ) : (
+        <ol className="mt-4 space-y-4 border-l border-foreground/20 pl-4">
+          {entries.map((row) => (
+            <li key={row[4] || `${row[0]} ${row[1]}`}>
+              <p className="text-xs text-foreground/60">
+                {row[0]} {row[1]}
+                {row[5] !== null && <span className="ml-2">{formatMood(row[5])}</span>}
+              </p>
+              <p className="mt-1 whitespace-pre-wrap text-sm">{row[2]}</p>
+              {(row[6].length > 0 || row[7].length > 0) && (
+                <p className="mt-1 flex flex-wrap gap-1 text-xs">
+                  {row[6].map((e) => (
+                    <span key={`e-${e}`} className="rounded bg-pink-500/10 px-2 py-0.5">
+                      {e}
+                    </span>
+                  ))}
+                  {row[7].map((t) => (
+                    <span key={`t-${t}`} className="rounded bg-foreground/10 px-2 py-0.5">
+                      #{t}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+// app/_components/LoginScreen.tsx
+
+/** ====== 未ログイン時の画面 ====== */
+export function LoginScreen({ failed }: { failed: boolean }) {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-6 p-8 text-center">
+      <h1 className="text-2xl font-bold">Health Habits</h1>
+      <p className="text-sm text-foreground/70">
+        LINE で記録した食事・運動・瞑想・ジャーナルを振り返るダッシュボードです。
+        <br />
+        ボットと同じ LINE アカウントでログインしてください。
+      </p>
+      {failed && <p className="text-sm text-red-500">ログインできませんでした。もう一度お試しください。</p>}
+      <a href="/api/auth/login" className="rounded-full bg-[#06C755] px-6 py-3 font-semibold text-white hover:opacity-90">
+        LINE でログイン
+      </a>
+    </main>
+  );
+}
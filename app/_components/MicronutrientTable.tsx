@@ -0,0 +1,39 @@
+// app/_components/MicronutrientTable.tsx
+import type { MicronutrientAverage } from "@/lib/dashboard";
+
+/** ====== 微量栄養素の1日平均と目標に対する割合 ====== */
+export function MicronutrientTable({ rows }: { rows: MicronutrientAverage[] }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b border-foreground/10 last:border-0">
+            <td className="py-2 pr-2 whitespace-nowrap">{row.label}</td>
+            <td className="py-2 pr-2 text-right whitespace-nowrap">
+              {row.average} {row.unit}
+              {row.target !== null && (
+                <span className="text-foreground/50">
+                  {" "}
+                  / {row.target} {row.unit}
+                </span>
+              )}
+            </td>
+            <td className="py-2 w-1/2">
+              {row.percent !== null && (
+                <div className="flex items-center gap-2">
+                  <div className="h-2 flex-1 rounded bg-foreground/10">
+                    <div
+                      className={`h-2 rounded ${row.percent < 70 ? "bg-red-400" : "bg-emerald-500"}`}
+                      style={{ width: `${Math.min(100, row.percent)}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right text-xs">{row.percent}%</span>
+                </div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
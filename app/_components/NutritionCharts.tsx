@@ -0,0 +1,131 @@
+// app/_components/NutritionCharts.tsx
+import type { NutritionPoint } from "@/lib/dashboard";
+import type { DailyTargets } from "@/lib/targets";
+
+const CHART_HEIGHT = 160;
+
+/* ==================================================
+   カロリー（摂取と運動による消費、目標ライン付き）
+================================================== */
+
+export function KcalChart({ points, targets }: { points: NutritionPoint[]; targets: DailyTargets | null }) {
+  const target = targets?.kcal.target ?? 0;
+  const max = Math.max(target, ...points.map((p) => Math.max(p.nutrients.kcal, p.burnedKcal)), 1) * 1.1;
+  const y = (kcal: number) => CHART_HEIGHT - (kcal / max) * CHART_HEIGHT;
+  const width = 100 / Math.max(points.length, 1);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40" role="img">
+        {points.map((p, i) => (
+          <g key={p.start}>
+            <rect
+              x={i * width + width * 0.15}
+              y={y(p.nutrients.kcal)}
+              width={width * 0.45}
+              height={CHART_HEIGHT - y(p.nutrients.kcal)}
+              className="fill-orange-400"
+            >
+              <title>{`${p.label} 摂取 ${Math.round(p.nutrients.kcal)} kcal`}</title>
+            </rect>
+            <rect
+              x={i * width + width * 0.6}
+              y={y(p.burnedKcal)}
+              width={width * 0.25}
+              height={CHART_HEIGHT - y(p.burnedKcal)}
+              className="fill-sky-400"
+            >
+              <title>{`${p.label} 運動 ${p.burnedKcal} kcal`}</title>
+            </rect>
+          </g>
+        ))}
+        {target > 0 && (
+          <line
+            x1={0}
+            x2={100}
+            y1={y(target)}
+            y2={y(target)}
+            className="stroke-red-500"
+            strokeDasharray="2 1"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <AxisLabels points={points} />
+      <p className="mt-2 text-xs text-foreground/60">
+        <span className="text-orange-500">■</span> 摂取 <span className="text-sky-500">■</span> 運動による消費
+        {target > 0 && <span className="text-red-500"> ┅ 目標 {target} kcal</span>}
+      </p>
+    </div>
+  );
+}
+
+/* ==================================================
+   PFC（タンパク質・脂質・炭水化物のエネルギー比）
+================================================== */
+
+const MACROS = [
+  { key: "protein", label: "タンパク質", kcalPerGram: 4, className: "fill-emerald-500", swatch: "text-emerald-500" },
+  { key: "fat", label: "脂質", kcalPerGram: 9, className: "fill-amber-400", swatch: "text-amber-500" },
+  { key: "carbs", label: "炭水化物", kcalPerGram: 4, className: "fill-indigo-400", swatch: "text-indigo-500" },
+] as const;
+
+export function MacroChart({ points }: { points: NutritionPoint[] }) {
+  const width = 100 / Math.max(points.length, 1);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40" role="img">
+        {points.map((p, i) => {
+          const kcal = MACROS.map((m) => p.nutrients[m.key] * m.kcalPerGram);
+          const total = kcal.reduce((a, b) => a + b, 0);
+          if (total === 0) return null;
+          let offset = 0;
+          return (
+            <g key={p.start}>
+              {MACROS.map((m, j) => {
+                const height = (kcal[j] / total) * CHART_HEIGHT;
+                offset += height;
+                return (
+                  <rect
+                    key={m.key}
+                    x={i * width + width * 0.15}
+                    y={CHART_HEIGHT - offset}
+                    width={width * 0.7}
+                    height={height}
+                    className={m.className}
+                  >
+                    <title>{`${p.label} ${m.label} ${p.nutrients[m.key]} g（${Math.round((kcal[j] / total) * 100)}%）`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <AxisLabels points={points} />
+      <p className="mt-2 text-xs text-foreground/60">
+        {MACROS.map((m) => (
+          <span key={m.key} className="mr-2">
+            <span className={m.swatch}>■</span> {m.label}
+          </span>
+        ))}
+        （エネルギー比）
+      </p>
+    </div>
+  );
+}
+
+/** 点が多いときは間引いてラベルを出す */
+function AxisLabels({ points }: { points: NutritionPoint[] }) {
+  const step = Math.ceil(points.length / 10);
+  return (
+    <div className="flex text-[10px] text-foreground/50">
+      {points.map((p, i) => (
+        <span key={p.start} className="flex-1 text-center truncate">
+          {i % step === 0 ? p.label : ""}
+        </span>
+      ))}
+    </div>
+  );
+}
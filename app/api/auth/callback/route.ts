@@ -0,0 +1,40 @@
+// app/api/auth/callback/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { exchangeCodeForUserId, LOGIN_STATE_COOKIE } from "@/lib/lineLogin";
+import { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SEC } from "@/lib/session";
+
+/** ====== GET: LINE Login からのコールバック（セッション Cookie を発行してダッシュボードへ） ====== */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const url = new URL(req.url);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  const expectedState = req.cookies.get(LOGIN_STATE_COOKIE)?.value;
+
+  if (!code || !state || state !== expectedState) {
+    console.warn("[AUTH] Invalid login callback", url.searchParams.get("error") ?? "state mismatch");
+    return NextResponse.redirect(new URL("/?login=failed", url.origin));
+  }
+
+  try {
+    const userId = await exchangeCodeForUserId(code, `${url.origin}/api/auth/callback`);
+    console.log("[AUTH][LOGIN]", userId);
+
+    const res = NextResponse.redirect(new URL("/", url.origin));
+    res.cookies.set(SESSION_COOKIE, createSessionToken(userId), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE_SEC,
+    });
+    res.cookies.delete({ name: LOGIN_STATE_COOKIE, path: "/api/auth" });
+    return res;
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[AUTH][ERR]", e.message);
+    } else {
+      console.error("[AUTH][ERR]", e);
+    }
+    return NextResponse.redirect(new URL("/?login=failed", url.origin));
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/auth/login/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { buildAuthorizeUrl, LOGIN_STATE_COOKIE } from "@/lib/lineLogin";
+
+/** ====== GET: LINE Login の認可画面へリダイレクト ====== */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const redirectUri = `${new URL(req.url).origin}/api/auth/callback`;
+  const state = crypto.randomBytes(16).toString("hex");
+
+  const res = NextResponse.redirect(buildAuthorizeUrl(redirectUri, state));
+  // コールバックで照合する（CSRF 対策）
+  res.cookies.set(LOGIN_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/auth",
+    maxAge: 60 * 10,
+  });
+  return res;
+}
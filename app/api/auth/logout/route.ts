@@ -0,0 +1,10 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/session";
+
+/** ====== POST: ログアウト（フォームから送信） ====== */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const res = NextResponse.redirect(new URL("/", req.url), 303);
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
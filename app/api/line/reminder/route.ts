@@ -1,54 +1,78 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getLogStore, type UserRow } from "@/lib/logStore";
+import { pushToLine } from "@/lib/line";
+import { buildReminderMessage, isReminderDue, normalizeUserRow } from "@/lib/reminders";
 
-/** ====== LINE Pushメッセージ ====== */
-async function pushToLine(userId: string, text: string): Promise<void> {
-  try {
-    const res = await fetch("https://api.line.me/v2/bot/message/push", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
-      },
-      body: JSON.stringify({
-        to: userId,
-        messages: [{ type: "text", text }],
-      }),
-    });
-    console.log("[LINE][PUSH]", res.status);
-  } catch (e: unknown) {
-    if (e instanceof Error) {
-      console.error("[LINE][PUSH][ERR]", e.message);
-    } else {
-      console.error("[LINE][PUSH][ERR]", e);
-    }
+// ユーザー登録がまだ無い環境向けのフォールバック（.env.local に設定）
+const FALLBACK_USER_ID: string | undefined = process.env.LINE_USER_ID;
+
+/** ====== 送信対象（登録済み・フォロー中・リマインダー受信ONのユーザー） ====== */
+async function getReminderTargets(): Promise<UserRow[]> {
+  const users = await getLogStore().getUsers();
+  if (users.length === 0) {
+    return FALLBACK_USER_ID ? [normalizeUserRow([FALLBACK_USER_ID])] : [];
   }
+  return users.filter((u) => u[2] === "active" && u[3]);
 }
 
-// 固定の userId（自分のIDを .env.local に設定）
-const USER_ID: string | undefined = process.env.LINE_USER_ID;
+/** ====== 呼び出し元の確認 ======
+ * Vercel Cron は CRON_SECRET を Authorization: Bearer で付けて呼ぶ。未設定なら誰も呼べないようにする
+ */
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.warn("[REMINDER] CRON_SECRET is not set");
+    return false;
+  }
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
 
-/** ====== GET: リマインダー送信 ====== */
+/** ====== GET: リマインダー送信 ======
+ * 毎時 cron で呼ばれ、各ユーザーのリマインダー時刻（ユーザーのタイムゾーン）に当たる人だけに送る。
+ * ?force=1 を付けると時刻に関係なく全員を対象にする（手動確認用。cron と同じく CRON_SECRET が必要）。
+ */
 export async function GET(req: NextRequest): Promise<NextResponse> {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const { searchParams } = new URL(req.url);
-  const type = searchParams.get("type");
+  const force = searchParams.get("force") === "1";
+  const now = new Date();
+  const store = getLogStore();
 
-  if (!USER_ID) {
+  const targets = await getReminderTargets();
+  if (targets.length === 0) {
     return NextResponse.json(
-      { error: "LINE_USER_ID not set" },
+      { error: "No reminder targets (no registered users and LINE_USER_ID not set)" },
       { status: 400 }
     );
   }
 
-  let message = "📌 リマインダー";
-  if (type === "morning") {
-    message =
-      "🌅 おはようございます！今日の体調をチェックして、朝食・瞑想・ジャーナルを記録しましょう。";
-  } else if (type === "night") {
-    message =
-      "🌙 1日お疲れさまでした！今日の食事・運動・瞑想・ジャーナルを振り返りましょう。";
-  }
-
-  await pushToLine(USER_ID, message);
+  const due = force ? targets : targets.filter((u) => isReminderDue(u, now));
+  let sent = 0;
+  let failed = 0;
+  let skipped = 0;
+  await Promise.all(
+    due.map(async (user) => {
+      try {
+        const message = await buildReminderMessage(store, user, now);
+        if (!message) {
+          skipped++;
+          return;
+        }
+        if (await pushToLine(user[0], message)) sent++;
+        else failed++;
+      } catch (e: unknown) {
+        failed++;
+        if (e instanceof Error) {
+          console.error("[REMINDER][ERR]", user[0], e.message);
+        } else {
+          console.error("[REMINDER][ERR]", user[0], e);
+        }
+      }
+    })
+  );
 
-  return NextResponse.json({ ok: true, type });
+  return NextResponse.json({ ok: true, due: due.length, sent, failed, skipped });
 }
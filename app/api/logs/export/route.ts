@@ -0,0 +1,67 @@
+// app/api/logs/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { getSessionUserId } from "@/lib/session";
+import {
+  fetchLogs,
+  isTransferKind,
+  isValidDate,
+  toCsv,
+  toRecords,
+  TRANSFER_KINDS,
+  type TransferKind,
+} from "@/lib/transfer";
+
+/** ====== GET: ログのエクスポート（ダッシュボードにログイン中のユーザー本人の分） ======
+ * ?format=csv&kind=meal&start=2025-01-01&end=2025-01-31
+ * format は json（既定）か csv。CSV は kind を1つ指定する。JSON は kind を省くと全種類。
+ * start / end を省くとその側は無制限。
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const userId = await getSessionUserId();
+  if (!userId) return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const format = searchParams.get("format") ?? "json";
+  const kindParam = searchParams.get("kind");
+  const start = searchParams.get("start") || null;
+  const end = searchParams.get("end") || null;
+
+  if (format !== "json" && format !== "csv") {
+    return NextResponse.json({ error: "format must be json or csv" }, { status: 400 });
+  }
+  if (kindParam !== null && !isTransferKind(kindParam)) {
+    return NextResponse.json({ error: `kind must be one of ${TRANSFER_KINDS.join(", ")}` }, { status: 400 });
+  }
+  if (format === "csv" && kindParam === null) {
+    return NextResponse.json({ error: "kind is required for CSV" }, { status: 400 });
+  }
+  if ((start && !isValidDate(start)) || (end && !isValidDate(end))) {
+    return NextResponse.json({ error: "start and end must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const store = getLogStore();
+  const rangeStart = start ?? (end ? "0000-01-01" : "ALL");
+  const rangeEnd = end ?? (start ? "9999-12-31" : "ALL");
+  const kinds: TransferKind[] = kindParam ? [kindParam as TransferKind] : TRANSFER_KINDS;
+  const rows = await Promise.all(kinds.map((kind) => fetchLogs(store, kind, userId, rangeStart, rangeEnd)));
+  console.log("[EXPORT]", format, kinds.join(","), rows.reduce((n, r) => n + r.length, 0));
+
+  const filename = `health-habits-${kindParam ?? "logs"}-${start ?? "all"}-${end ?? "all"}.${format}`;
+  const headers = { "Content-Disposition": `attachment; filename="${filename}"` };
+
+  if (format === "csv") {
+    return new NextResponse(toCsv(kinds[0], rows[0]), {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    });
+  }
+  return NextResponse.json(
+    {
+      exportedAt: new Date().toISOString(),
+      start,
+      end,
+      logs: Object.fromEntries(kinds.map((kind, i) => [kind, toRecords(kind, rows[i])])),
+    },
+    { headers }
+  );
+}
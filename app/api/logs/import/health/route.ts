@@ -0,0 +1,116 @@
+// app/api/logs/import/health/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { getSessionUserId } from "@/lib/session";
+import { DEFAULT_WEIGHT_KG } from "@/lib/exercise";
+import { isValidDate } from "@/lib/transfer";
+import {
+  createHealthCollector,
+  importHealthBatches,
+  parseAppleHealthXml,
+  parseGoogleFitDailyCsv,
+  parseGoogleFitSession,
+  type HealthCollector,
+} from "@/lib/healthImport";
+
+// multipart は req.formData() が全体をメモリに読み込むので、大きさを抑える（大きな export.xml は本文で送る）
+const MAX_FORM_BYTES = 20 * 1024 * 1024;
+
+/** バイト列のストリームを文字列のチャンクとして読む */
+async function* readText(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield decoder.decode(value, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/** Google Takeout の Fit フォルダのファイルを1つ読む（CSV は日ごとの集計、JSON はセッション） */
+async function readGoogleFitFile(file: File, collector: HealthCollector): Promise<boolean> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv")) {
+    parseGoogleFitDailyCsv(await file.text(), collector);
+    return true;
+  }
+  if (name.endsWith(".json")) {
+    try {
+      parseGoogleFitSession(JSON.parse(await file.text()), collector);
+    } catch {
+      collector.skip();
+    }
+    return true;
+  }
+  return false;
+}
+
+/** ====== POST: Apple Health / Google Fit のエクスポートを取り込む ======
+ * Apple Health: export.xml をそのまま本文で送る（Content-Type: application/xml）か、multipart の file で送る。
+ * Google Fit: Takeout の「Daily activity metrics.csv」と「All Sessions/*.json」を multipart の file で送る（複数可）。
+ * ?since=2025-01-01 でそれより前の記録を除き、?dryRun=1 で書き込まずに件数だけ返す。
+ * 本文で送った export.xml は少しずつ読むので大きさの上限は無いが、Vercel では本文が 4.5MB までに制限されるため、
+ * 大きな書き出しはローカル（npm run dev）や自前のサーバーで動かして送る。
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const userId = await getSessionUserId();
+  if (!userId) return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const dryRun = searchParams.get("dryRun") === "1";
+  const since = searchParams.get("since") ?? "";
+  if (since && !isValidDate(since)) {
+    return NextResponse.json({ error: "since must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  try {
+    const store = getLogStore();
+    const profile = await store.getProfile(userId);
+    const options = { since, weightKg: profile ? profile[3] : DEFAULT_WEIGHT_KG };
+    const contentType = req.headers.get("content-type") ?? "";
+    let collector: HealthCollector;
+
+    if (contentType.includes("multipart/form-data")) {
+      if (Number(req.headers.get("content-length") ?? 0) > MAX_FORM_BYTES) {
+        return NextResponse.json(
+          { error: `Upload is too large (max ${MAX_FORM_BYTES / 1024 / 1024}MB). Send export.xml as the request body` },
+          { status: 413 }
+        );
+      }
+      const files = (await req.formData()).getAll("file").filter((f): f is File => f instanceof File);
+      if (files.length === 0) {
+        return NextResponse.json({ error: 'Form field "file" is required' }, { status: 400 });
+      }
+      const apple = files.find((f) => f.name.toLowerCase().endsWith(".xml"));
+      if (apple) {
+        collector = createHealthCollector("apple", options);
+        await parseAppleHealthXml(readText(apple.stream()), collector);
+      } else {
+        collector = createHealthCollector("googleFit", options);
+        for (const file of files) {
+          if (!(await readGoogleFitFile(file, collector))) {
+            return NextResponse.json({ error: `Unsupported file: ${file.name}` }, { status: 400 });
+          }
+        }
+      }
+    } else if (contentType.includes("xml") && req.body) {
+      collector = createHealthCollector("apple", options);
+      await parseAppleHealthXml(readText(req.body), collector);
+    } else {
+      return NextResponse.json({ error: "Send export.xml or Google Fit files" }, { status: 400 });
+    }
+
+    const { batches, skipped } = collector.finish();
+    const results = await importHealthBatches(store, userId, batches, { dryRun });
+    console.log("[IMPORT][HEALTH]", userId, `skipped=${skipped}`);
+    return NextResponse.json({ dryRun, results, skipped });
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[IMPORT][HEALTH][ERR]", e.message);
+    } else {
+      console.error("[IMPORT][HEALTH][ERR]", e);
+    }
+    return NextResponse.json({ error: "Import failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/logs/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { getSessionUserId } from "@/lib/session";
+import { ImportFormatError, importRecords, MAX_IMPORT_ROWS, parseImportText } from "@/lib/transfer";
+
+/** 本文の形式と中身を取り出す（multipart のファイル・JSON・CSV） */
+async function readBody(req: NextRequest): Promise<{ text: string; format: "csv" | "json"; kind: string | null }> {
+  const { searchParams } = new URL(req.url);
+  const contentType = req.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) throw new ImportFormatError('Form field "file" is required');
+    const isJson = file.name.toLowerCase().endsWith(".json") || file.type.includes("json");
+    const kind = form.get("kind");
+    return {
+      text: await file.text(),
+      format: isJson ? "json" : "csv",
+      kind: typeof kind === "string" && kind ? kind : searchParams.get("kind"),
+    };
+  }
+  return {
+    text: await req.text(),
+    format: contentType.includes("json") ? "json" : "csv",
+    kind: searchParams.get("kind"),
+  };
+}
+
+/** ====== POST: ログのインポート（ダッシュボードにログイン中のユーザー本人の分として追加） ======
+ * JSON はエクスポートと同じ形、CSV は ?kind=meal のように種類を指定する。
+ * 不正な行は飛ばしてエラーとして返し、既存の記録と重複する行は追加しない。
+ * ?dryRun=1 で検証だけ行う。
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const userId = await getSessionUserId();
+  if (!userId) return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+
+  const dryRun = new URL(req.url).searchParams.get("dryRun") === "1";
+
+  try {
+    const { text, format, kind } = await readBody(req);
+    const batches = parseImportText(text, format, kind);
+    const total = batches.reduce((n, b) => n + b.records.length, 0);
+    if (total > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Too many rows (max ${MAX_IMPORT_ROWS})` }, { status: 413 });
+    }
+
+    const store = getLogStore();
+    const results = [];
+    // 種類ごとに順番に書き込む（Sheets API の呼び出しが重ならないように）
+    for (const batch of batches) {
+      results.push(
+        await importRecords(store, userId, batch.kind, batch.records, { dryRun, rowNumberOf: batch.rowNumberOf })
+      );
+    }
+    return NextResponse.json({ dryRun, results });
+  } catch (e: unknown) {
+    if (e instanceof ImportFormatError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    if (e instanceof Error) {
+      console.error("[IMPORT][ERR]", e.message);
+    } else {
+      console.error("[IMPORT][ERR]", e);
+    }
+    return NextResponse.json({ error: "Import failed" }, { status: 500 });
+  }
+}
@@ -1,103 +1,132 @@
-import Image from "next/image";
+// app/page.tsx
+import { getLogStore } from "@/lib/logStore";
+import { getSessionUserId } from "@/lib/session";
+import { loadDashboard, parseDashboardOptions, RANGE_OPTIONS, type DashboardOptions } from "@/lib/dashboard";
+import { LoginScreen } from "@/app/_components/LoginScreen";
+import { KcalChart, MacroChart } from "@/app/_components/NutritionCharts";
+import { MicronutrientTable } from "@/app/_components/MicronutrientTable";
+import { ActivityCalendar } from "@/app/_components/ActivityCalendar";
+import { JournalTimeline } from "@/app/_components/JournalTimeline";
 
-export default function Home() {
+// セッション Cookie とシートの最新データを見るので毎回描画する
+export const dynamic = "force-dynamic";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function hrefFor(options: DashboardOptions, change: Partial<DashboardOptions>): string {
+  const next = { ...options, ...change };
+  const params = new URLSearchParams({ view: next.view, days: String(next.days) });
+  if (next.query) params.set("q", next.query);
+  return `/?${params}`;
+}
+
+function Tab({ href, active, children }: { href: string; active: boolean; children: React.ReactNode }) {
   return (
-    <div className="font-sans grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20">
-      <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={180}
-          height={38}
-          priority
-        />
-        <ol className="font-mono list-inside list-decimal text-sm/6 text-center sm:text-left">
-          <li className="mb-2 tracking-[-.01em]">
-            Get started by editing{" "}
-            <code className="bg-black/[.05] dark:bg-white/[.06] font-mono font-semibold px-1 py-0.5 rounded">
-              app/page.tsx
-            </code>
-            .
-          </li>
-          <li className="tracking-[-.01em]">
-            Save and see your changes instantly.
-          </li>
-        </ol>
+    <a
+      href={href}
+      className={`rounded-full px-3 py-1 text-sm ${active ? "bg-foreground text-background" : "bg-foreground/10"}`}
+    >
+      {children}
+    </a>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border border-foreground/10 p-4">
+      <h2 className="mb-3 font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
 
-        <div className="flex gap-4 items-center flex-col sm:flex-row">
-          <a
-            className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-foreground text-background gap-2 hover:bg-[#383838] dark:hover:bg-[#ccc] font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:w-auto"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={20}
-              height={20}
-            />
-            Deploy now
-          </a>
-          <a
-            className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors flex items-center justify-center hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] hover:border-transparent font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 w-full sm:w-auto md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Read our docs
-          </a>
+/** ====== ダッシュボード（未ログインなら LINE Login へ案内） ====== */
+export default async function Home({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  const userId = await getSessionUserId();
+  if (!userId) return <LoginScreen failed={params.login === "failed"} />;
+
+  const options = parseDashboardOptions(params);
+  const store = getLogStore();
+  const [data, user] = await Promise.all([loadDashboard(store, userId, new Date(), options), store.getUser(userId)]);
+  const unit = options.view === "weekly" ? "（週ごとの1日平均）" : "（日ごと）";
+
+  return (
+    <main className="mx-auto max-w-5xl space-y-6 p-4 sm:p-8">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Health Habits</h1>
+          <p className="text-sm text-foreground/60">
+            {user?.[1] ? `${user[1]} さん・` : ""}
+            {data.range.start} 〜 {data.range.end}
+          </p>
         </div>
-      </main>
-      <footer className="row-start-3 flex gap-[24px] flex-wrap items-center justify-center">
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/file.svg"
-            alt="File icon"
-            width={16}
-            height={16}
-          />
-          Learn
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/window.svg"
-            alt="Window icon"
-            width={16}
-            height={16}
+        <div className="flex flex-wrap items-center gap-2">
+          <Tab href={hrefFor(options, { view: "daily" })} active={options.view === "daily"}>
+            日
+          </Tab>
+          <Tab href={hrefFor(options, { view: "weekly" })} active={options.view === "weekly"}>
+            週
+          </Tab>
+          <span className="mx-1 text-foreground/30">|</span>
+          {RANGE_OPTIONS.map((days) => (
+            <Tab key={days} href={hrefFor(options, { days })} active={options.days === days}>
+              {days}日
+            </Tab>
+          ))}
+          <form method="post" action="/api/auth/logout">
+            <button type="submit" className="ml-2 text-sm text-foreground/60 hover:underline">
+              ログアウト
+            </button>
+          </form>
+        </div>
+      </header>
+
+      {!data.targets && (
+        <p className="rounded-lg bg-amber-500/10 p-3 text-sm">
+          LINE で「プロフィール 35歳 女性 55kg 活動量ふつう 減量」のように送ると、目標値と比べて表示します📝
+        </p>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card title={`🔥 カロリー${unit}`}>
+          <KcalChart points={data.nutrition} targets={data.targets} />
+        </Card>
+        <Card title={`🍽️ PFCバランス${unit}`}>
+          <MacroChart points={data.nutrition} />
+        </Card>
+      </div>
+
+      <Card title="💊 微量栄養素（記録のある日の1日平均）">
+        <MicronutrientTable rows={data.micronutrients} />
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card title="カレンダー">
+          <ActivityCalendar
+            title="運動"
+            icon="💪"
+            summary={data.exercise}
+            colors={["bg-sky-200", "bg-sky-400", "bg-sky-600", "bg-sky-800"]}
           />
-          Examples
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/globe.svg"
-            alt="Globe icon"
-            width={16}
-            height={16}
+        </Card>
+        <Card title="カレンダー">
+          <ActivityCalendar
+            title="瞑想"
+            icon="🧘"
+            summary={data.meditation}
+            colors={["bg-violet-200", "bg-violet-400", "bg-violet-600", "bg-violet-800"]}
           />
-          Go to nextjs.org →
-        </a>
-      </footer>
-    </div>
+        </Card>
+      </div>
+
+      <Card title="📓 ジャーナル">
+        <JournalTimeline
+          entries={data.journal}
+          query={options.query}
+          hidden={{ view: options.view, days: String(options.days) }}
+        />
+      </Card>
+    </main>
   );
 }
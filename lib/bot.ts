@@ -0,0 +1,353 @@
+// lib/bot.ts
+import type {
+  WebhookEvent,
+  MessageEvent,
+  TextEventMessage,
+  ImageEventMessage,
+  AudioEventMessage,
+} from "@line/bot-sdk";
+import type { LogStore, UserRow } from "@/lib/logStore";
+import { toReplies, type LineClient, type Outgoing } from "@/lib/line";
+import { withLlmClient, type LlmClient } from "@/lib/openai";
+import { NutritionEstimateError, openAINutritionEstimator, type NutritionEstimate } from "@/lib/nutrition";
+import { buildSummaryReply, isSummaryCategory } from "@/lib/summaries";
+import { buildMealReply, detectMealDate, detectMealType, logMealFromImage, saveMealEstimate } from "@/lib/meals";
+import { formatProfile, mergeProfile, parseProfileCommand, PROFILE_USAGE } from "@/lib/profile";
+import { computeDailyTargets, formatTargets } from "@/lib/targets";
+import {
+  applyEditCommand,
+  changeMealType,
+  deleteEntry,
+  findEntryById,
+  formatEntry,
+  parseEditCommand,
+} from "@/lib/entries";
+import { logExercise } from "@/lib/exercise";
+import { applyMeditationCommand, logMeditation, parseMeditationCommand } from "@/lib/meditation";
+import { buildReflection, logJournal, parseReflectionCommand } from "@/lib/journal";
+import { logMetric } from "@/lib/metrics";
+import { replyAsCoach } from "@/lib/coach";
+import { MAX_VOICE_DURATION_MS, openAISpeechToText, transcribeVoiceMessage, type SpeechToText } from "@/lib/voice";
+import { claimWebhookEvent, eventEntryId, releaseWebhookEvent } from "@/lib/idempotency";
+import type { Job } from "@/lib/jobs";
+import { openAIIntentClassifier, type Intent } from "@/lib/intents";
+import { formatReminderSettings, normalizeUserRow, parseReminderCommand, type ReminderCommand } from "@/lib/reminders";
+import { parsePostback, textReply, undoItem, undoLastItem, weeklySummaryItem, type Reply } from "@/lib/messages";
+import { startOfWeek, toLocalDate } from "@/lib/dates";
+
+/* ==================================================
+   ボットの本体（Webhook イベント → 記録・返信）
+   保存先・LINE・LLM は外から渡すので、同じ処理を Webhook（app/api/line/webhook/route.ts）と
+   ターミナルのシミュレーター（lib/simulator.ts）の両方から動かせる
+================================================== */
+
+export type BotClients = {
+  store: LogStore;
+  line: LineClient;
+  // 省略すると OpenAI。渡すと分類・栄養推定・コーチなどモデルの呼び出しがすべてこれを通る
+  llm?: LlmClient;
+  // 音声メッセージの文字起こし（省略すると OpenAI）
+  speech?: SpeechToText;
+};
+
+export type Bot = {
+  /** イベントの処理（重複チェック・ローディング表示・返信の配送まで）をジョブにする。送り主が分からなければ null */
+  eventJob(event: WebhookEvent, receivedAt: number): Job | null;
+};
+
+const FAILURE_REPLY = "うまく処理できませんでした🙏 少し時間をおいてもう一度送ってください。";
+
+export function createBot({ store, line, llm, speech = openAISpeechToText }: BotClients): Bot {
+  /** ====== ユーザー登録（follow / unfollow / 未登録ユーザーの初回メッセージ） ====== */
+  async function registerUser(userId: string): Promise<void> {
+    const existing = await store.getUser(userId);
+    const now = new Date().toISOString();
+    const displayName = (await line.getDisplayName(userId)) || existing?.[1] || "";
+    const base = existing ?? normalizeUserRow([userId, displayName, "active", true, now, now]);
+    await store.upsertUser([userId, displayName, "active", base[3], base[4] || now, now, base[6], base[7]]);
+  }
+
+  async function unregisterUser(userId: string): Promise<void> {
+    const existing = await store.getUser(userId);
+    if (!existing) return;
+    const [, displayName, , optIn, followedAt, , times, categories] = existing;
+    const now = new Date().toISOString();
+    await store.upsertUser([userId, displayName, "unfollowed", optIn, followedAt, now, times, categories]);
+  }
+
+  /** ====== リマインダー設定の変更 ====== */
+  async function updateReminderSettings(userId: string, command: ReminderCommand): Promise<UserRow> {
+    const user = (await store.getUser(userId)) ?? normalizeUserRow([userId]);
+    if (command.kind === "show") return user;
+
+    const updated: UserRow = [...user];
+    if (command.kind === "optIn") updated[3] = command.optIn;
+    if (command.kind === "times") updated[6] = command.times;
+    if (command.kind === "categories") updated[7] = command.categories;
+    updated[5] = new Date().toISOString();
+    await store.upsertUser(updated);
+    return updated;
+  }
+
+  /** ====== 記録の返信に付けるボタン（取り消し・今週のサマリー） ====== */
+  function loggedReply(text: string, category: string): Reply {
+    return { text, quickReply: [undoLastItem(), weeklySummaryItem(category)] };
+  }
+
+  /** ====== 用件ごとの処理（返信を返す。id は記録に使う記録ID） ====== */
+  async function handleIntent(userId: string, intent: Intent, now: Date, id?: string): Promise<Reply> {
+    /** 📊 サマリー要求（食事・運動・瞑想・ジャーナル） */
+    if (intent.type === "summary") {
+      return buildSummaryReply(store, userId, intent.category, intent.range);
+    }
+
+    /** 🍽️ 食事ログ */
+    if (intent.type === "meal") {
+      const mealDate = intent.date ?? detectMealDate(intent.text, now);
+      const mealType = intent.mealType ?? detectMealType(intent.text) ?? "";
+
+      let estimate: NutritionEstimate;
+      try {
+        estimate = await openAINutritionEstimator.fromText(intent.text);
+      } catch (e: unknown) {
+        if (!(e instanceof NutritionEstimateError)) throw e;
+        console.error("[NUTRITION][ERR]", e.message);
+        return textReply(
+          `「${intent.text}」の栄養素をうまく推定できませんでした🙏 食品名や量を少し具体的にして、もう一度送ってください。`
+        );
+      }
+
+      const input = intent.text;
+      const mealId = await saveMealEstimate(store, { userId, at: now, mealDate, mealType, input, estimate, id });
+      return buildMealReply(store, { userId, mealId, mealDate, mealType, estimate, header: "記録しました📊" });
+    }
+
+    /** 🏃 運動ログ */
+    if (intent.type === "exercise") {
+      return loggedReply(await logExercise(store, { userId, at: now, text: intent.text, id }), "exercise");
+    }
+
+    /** 🧘 瞑想ログ */
+    if (intent.type === "meditation") {
+      return loggedReply(await logMeditation(store, { userId, at: now, text: intent.text, id }), "meditation");
+    }
+
+    /** ⚖️ 体重・睡眠・水分・歩数・サイズ（lib/metrics.ts のレジストリ） */
+    if (intent.type === "metric") {
+      const text = await logMetric(store, { userId, at: now, kind: intent.kind, text: intent.text, id });
+      return loggedReply(text, intent.kind);
+    }
+
+    /** 📓 ジャーナルログ */
+    if (intent.type === "journal") {
+      return loggedReply(await logJournal(store, { userId, at: now, text: intent.text, id }), "journal");
+    }
+
+    /** ⚙️ 設定操作（決まった書き方のコマンドに当てはまらなかったもの） */
+    if (intent.type === "settings") {
+      return textReply(
+        "設定の変更は次のように送ってください⚙️\n" +
+          "・「リマインダー設定」「リマインダーを21時に変更」\n" +
+          "・「プロフィール 35歳 女性 55kg 活動量ふつう 減量」\n" +
+          "・「記録を見せて」「取り消し」「2番を削除」"
+      );
+    }
+
+    /** 🗨️ 通常の応答（直近の記録と会話履歴を踏まえたコーチ） */
+    try {
+      return textReply(await replyAsCoach(store, { userId, text: intent.text, now }));
+    } catch (e: unknown) {
+      if (e instanceof Error) {
+        console.error("[COACH][ERR]", e.message);
+      } else {
+        console.error("[COACH][ERR]", e);
+      }
+      return textReply("内部エラーが発生しました。時間をおいて再試行してください。");
+    }
+  }
+
+  /** ====== クイックリプライのボタン（ポストバック）の処理 ====== */
+  async function handlePostback(userId: string, data: string, now: Date): Promise<Reply> {
+    const postback = parsePostback(data);
+    if (!postback) return textReply("このボタンは使えなくなりました🙏 もう一度メッセージで送ってください。");
+
+    /** 🍽️ 食事の種類の選択 */
+    if (postback.action === "mealType") {
+      const entry = await findEntryById(store, userId, { kind: "meal", id: postback.id, date: postback.date });
+      if (!entry || entry.kind !== "meal") return textReply("その食事の記録が見つかりません（取り消し済みかもしれません）📭");
+      const row = await changeMealType(store, userId, entry, postback.mealType);
+      return {
+        text: `${postback.mealType}として記録しました✏️\n${formatEntry({ kind: "meal", row })}`,
+        quickReply: [undoItem("meal", postback.id, postback.date), weeklySummaryItem("meal")],
+      };
+    }
+
+    /** 🗑️ 記録IDを指定した取り消し */
+    if (postback.action === "undo") {
+      const entry = await findEntryById(store, userId, postback);
+      if (!entry) return textReply("取り消せる記録が見つかりません（取り消し済みかもしれません）📭");
+      await deleteEntry(store, userId, entry);
+      return textReply(`取り消しました🗑️\n${formatEntry(entry)}`);
+    }
+
+    /** 📊 今週のサマリー */
+    if (!isSummaryCategory(postback.category)) return textReply("このボタンは使えなくなりました🙏");
+    const today = toLocalDate(now);
+    return buildSummaryReply(store, userId, postback.category, { start: startOfWeek(today), end: today });
+  }
+
+  /** ====== イベントごとの処理（返信を返す。返信しないイベントは null） ====== */
+  async function processEvent(event: WebhookEvent, userId: string): Promise<Outgoing | null> {
+    /** 👋 友だち追加 / ブロック */
+    if (event.type === "follow") {
+      await registerUser(userId);
+      return "友だち追加ありがとうございます！食事・運動・瞑想・ジャーナルを送ってもらえれば記録します📒";
+    }
+    if (event.type === "unfollow") {
+      await unregisterUser(userId);
+      return null;
+    }
+
+    /** 🔘 クイックリプライのボタン */
+    if (event.type === "postback") {
+      return handlePostback(userId, event.postback.data, new Date());
+    }
+
+    if (event.type !== "message") return null;
+
+    // follow 前から使っているユーザーはここで登録する
+    if (!(await store.getUser(userId))) {
+      await registerUser(userId);
+    }
+
+    /** 📷 食事の写真 */
+    if (event.message.type === "image") {
+      const image = event.message as ImageEventMessage;
+      return logMealFromImage(
+        { userId, messageId: image.id, timestamp: event.timestamp, id: eventEntryId(event) },
+        { store, content: line, estimator: openAINutritionEstimator }
+      );
+    }
+
+    /** 🎙️ 音声（文字起こしして、入力した文と同じように処理する。聞き取った内容を返信の先頭に添える） */
+    if (event.message.type === "audio") {
+      const audio = event.message as AudioEventMessage;
+      if (audio.duration && audio.duration > MAX_VOICE_DURATION_MS) {
+        return `音声は${MAX_VOICE_DURATION_MS / 60000}分以内で送ってください🙏`;
+      }
+      const transcript = await transcribeVoiceMessage(audio.id, { content: line, speech });
+      if (!transcript) return "うまく聞き取れませんでした🙏 もう一度話すか、文字で送ってください。";
+      return [textReply(`🎙️ 聞き取った内容:「${transcript}」`), ...toReplies(await handleText(event, userId, transcript))];
+    }
+
+    if (event.message.type !== "text") return null;
+
+    const msg = (event as MessageEvent).message as TextEventMessage;
+
+    const userText: string = msg.text?.trim() ?? "";
+    if (!userText) return null;
+
+    return handleText(event, userId, userText);
+  }
+
+  /** ====== メッセージの文の処理（コマンド → 用件の分類の順に試す） ====== */
+  async function handleText(event: WebhookEvent, userId: string, userText: string): Promise<Outgoing> {
+    /** ⏰ リマインダー設定 */
+    const reminderCommand = parseReminderCommand(userText);
+    if (reminderCommand) {
+      const user = await updateReminderSettings(userId, reminderCommand);
+      const header =
+        reminderCommand.kind === "optIn"
+          ? reminderCommand.optIn ? "リマインダーを再開しました⏰" : "リマインダーを停止しました🔕"
+          : reminderCommand.kind === "show" ? "現在のリマインダー設定です" : "リマインダーを変更しました⏰";
+      return `${header}\n\n${formatReminderSettings(user)}`;
+    }
+
+    /** 📝 プロフィール設定 */
+    const profileCommand = parseProfileCommand(userText);
+    if (profileCommand) {
+      const existing = await store.getProfile(userId);
+      const profile = mergeProfile(userId, existing, profileCommand, new Date());
+      if (!profile) return PROFILE_USAGE;
+      if (Object.keys(profileCommand).length > 0) {
+        await store.upsertProfile(profile);
+      }
+      return `プロフィール: ${formatProfile(profile)}\n\n1日の目標:\n${formatTargets(computeDailyTargets(profile))}`;
+    }
+
+    /** ✏️ 取り消し・修正・削除・一覧 */
+    const editCommand = parseEditCommand(userText, new Date());
+    if (editCommand) {
+      return applyEditCommand(store, userId, editCommand, eventEntryId(event));
+    }
+
+    /** 🧘 瞑想セッション（瞑想開始 〜 瞑想終了） */
+    const meditationCommand = parseMeditationCommand(userText);
+    if (meditationCommand) {
+      return applyMeditationCommand(store, userId, meditationCommand, new Date(), eventEntryId(event));
+    }
+
+    /** 🌱 ジャーナルの振り返り */
+    const reflectionRange = parseReflectionCommand(userText, new Date());
+    if (reflectionRange) {
+      return buildReflection(store, userId, reflectionRange);
+    }
+
+    /** ====== 用件の分類（1メッセージに複数あれば順に処理してまとめて返信） ====== */
+    const now = new Date();
+    const intents = await openAIIntentClassifier.classify(userText, now);
+    console.log("[INTENT]", intents.map((i) => i.type).join(","));
+
+    const replies: Reply[] = [];
+    for (const [i, intent] of intents.entries()) {
+      replies.push(await handleIntent(userId, intent, now, eventEntryId(event, i)));
+    }
+    return replies;
+  }
+
+  /** ====== イベントのバックグラウンドジョブ ======
+   * 処理済みの記録（webhookEventId）は最初の試行でだけ付け、やり直しでは付け直さない。
+   * 記録IDはイベントから決まるので、途中まで保存してから失敗しても、やり直しで行が重複しない。
+   * 返信がリプライでもプッシュでも送れなかったときも失敗としてやり直す（処理は済んでいるので送り直すだけ）
+   */
+  function eventJob(event: WebhookEvent, receivedAt: number): Job | null {
+    const userId = event.source?.userId;
+    console.log("[LINE][USERID]", userId);
+    if (!userId) return null;
+
+    const replyToken = "replyToken" in event ? event.replyToken : undefined;
+    // メッセージとボタンには返信を待っている人がいるので、ローディング表示と失敗の通知をする
+    const interactive = event.type === "message" || event.type === "postback";
+    let claimed = false;
+    let processed = false;
+    let reply: Outgoing | null = null;
+
+    return {
+      name: `${event.type}:${event.webhookEventId || userId}`,
+      async run() {
+        if (!claimed) {
+          /** 🔁 再送・重複して届いたイベントは処理しない */
+          if (!(await claimWebhookEvent(store, event, new Date()))) return;
+          claimed = true;
+          if (interactive && event.source.type === "user") await line.startLoading(userId);
+        }
+        if (!processed) {
+          reply = await (llm ? withLlmClient(llm, () => processEvent(event, userId)) : processEvent(event, userId));
+          processed = true;
+        }
+        if (reply && !(await line.deliver({ userId, replyToken, receivedAt }, reply))) {
+          throw new Error("LINE delivery failed");
+        }
+      },
+      async onFailure() {
+        // 処理は済んで返信だけ送れなかったときは、再送されても処理し直さないように処理済みのままにする
+        if (claimed && !processed) await releaseWebhookEvent(store, event);
+        if (interactive && !(await line.deliver({ userId, replyToken, receivedAt }, textReply(FAILURE_REPLY)))) {
+          throw new Error("LINE delivery failed");
+        }
+      },
+    };
+  }
+
+  return { eventJob };
+}
@@ -0,0 +1,239 @@
+// lib/coach.ts
+import type { ConversationTurnRow, LogStore } from "@/lib/logStore";
+import { callOpenAIWithRetry, type ChatMessage } from "@/lib/openai";
+import { addDays, toLocalDate, weekdayOf } from "@/lib/dates";
+import { mealRowNutrients } from "@/lib/meals";
+import { sumNutrients } from "@/lib/nutrition";
+import { computeDailyTargets, percentOf } from "@/lib/targets";
+import { formatProfile } from "@/lib/profile";
+import { exerciseMinutes } from "@/lib/exercise";
+import { meditationMinutes } from "@/lib/meditation";
+
+/* ==================================================
+   健康コーチとの会話
+   直近の記録の要約と会話履歴をプロンプトに入れて、「昨日の夕食は多すぎた？」のような
+   質問に記録をもとに答える
+================================================== */
+
+// プロンプトに入れる記録の日数（今日を含む）
+const CONTEXT_DAYS = 7;
+// ユーザーごとに残す発言の数（ユーザーとコーチの合計）
+export const STORED_TURNS = 20;
+
+// プロンプト全体のトークン予算（返信の max_tokens は別）。記録の要約はそのうち CONTEXT_TOKEN_BUDGET まで
+const PROMPT_TOKEN_BUDGET = 3000;
+const CONTEXT_TOKEN_BUDGET = 1200;
+const MAX_MESSAGE_CHARS = 1000; // 今回のメッセージ
+const MAX_TURN_CHARS = 400; // 履歴の1発言
+const MAX_LOG_TEXT_CHARS = 40; // 要約に載せる記録本文
+
+const FALLBACK_REPLY = "すみません、もう一度お願いします。";
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const SYSTEM_PROMPT =
+  "あなたは優しめの健康コーチです。栄養・運動・瞑想・ジャーナリングをサポートします。" +
+  "下の「ユーザーの記録」を根拠に、具体的な日付や数値を挙げて答えてください。" +
+  "記録に無いことは推測で断定せず、記録が無いと伝えてください。返信は300字程度までにしてください。";
+
+/** ====== トークン数の見積もり ======
+ * トークナイザーは使わず、英数字は4文字で1トークン、それ以外（日本語など）は1文字1トークンとして多めに見積もる
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4) + other + 4; // 4 はメッセージごとのオーバーヘッド
+}
+
+function truncate(text: string, max: number): string {
+  const chars = [...text];
+  return chars.length <= max ? text : `${chars.slice(0, max - 1).join("")}…`;
+}
+
+function shortDate(date: string): string {
+  const [, m, d] = date.split("-");
+  return `${Number(m)}/${Number(d)}(${WEEKDAY_LABELS[weekdayOf(date)]})`;
+}
+
+/* ==================================================
+   記録の要約
+================================================== */
+
+// 各セクションの行は新しい順（予算が足りないときは古い行から落ちる）
+export type ContextSection = { title: string; lines: string[] };
+
+export async function buildCoachContext(store: LogStore, userId: string, now: Date): Promise<ContextSection[]> {
+  const today = toLocalDate(now);
+  const start = addDays(today, -(CONTEXT_DAYS - 1));
+  const [profile, meals, exercise, meditation, journal] = await Promise.all([
+    store.getProfile(userId),
+    store.getMealLogsByRange(userId, start, today),
+    store.getExerciseLogsByRange(userId, start, today),
+    store.getMeditationLogsByRange(userId, start, today),
+    store.getJournalLogsByRange(userId, start, today),
+  ]);
+  const targets = profile ? computeDailyTargets(profile) : null;
+  const newestFirst = <T extends [string, string, ...unknown[]]>(rows: T[]) =>
+    [...rows].sort((a, b) => b[0].localeCompare(a[0]) || b[1].localeCompare(a[1]));
+
+  const goals = profile
+    ? [
+        `プロフィール: ${formatProfile(profile)}`,
+        `1日の目標: カロリー ${targets!.kcal.target} kcal・タンパク質 ${targets!.protein.target} g・` +
+          `脂質 ${targets!.fat.target} g・炭水化物 ${targets!.carbs.target} g`,
+      ]
+    : ["プロフィール未設定（目標値なし）"];
+
+  const mealLines: string[] = [];
+  for (let date = today; date >= start; date = addDays(date, -1)) {
+    const rows = meals.filter((row) => row[2] === date).sort((a, b) => a[1].localeCompare(b[1]));
+    if (rows.length === 0) {
+      mealLines.push(`${shortDate(date)}: 記録なし`);
+      continue;
+    }
+    const total = sumNutrients(rows.map(mealRowNutrients));
+    const progress = targets ? `（目標の${percentOf(total.kcal, targets.kcal)}%）` : "";
+    const items = rows.map((row) => `${row[3] || "食事"} ${truncate(row[4], MAX_LOG_TEXT_CHARS)}`).join("、");
+    mealLines.push(
+      `${shortDate(date)}: ${Math.round(total.kcal)} kcal${progress} ` +
+        `P${Math.round(total.protein)} F${Math.round(total.fat)} C${Math.round(total.carbs)} — ${items}`
+    );
+  }
+
+  const exerciseLines = newestFirst(exercise).map((row) => {
+    const minutes = exerciseMinutes(row);
+    const details = [minutes !== null ? `${minutes}分` : "", row[12] ? `${row[12]}kcal` : ""].filter(Boolean);
+    return `${shortDate(row[0])} ${row[1]} ${row[5]} ${details.join(" ")}`.trim();
+  });
+  const meditationLines = newestFirst(meditation).map((row) => {
+    const minutes = meditationMinutes(row);
+    return `${shortDate(row[0])} ${row[1]} ${row[5]}${minutes !== null ? ` ${minutes}分` : ""}`;
+  });
+  const journalLines = newestFirst(journal).map((row) => {
+    const mood = row[5] !== null ? ` [気分${row[5]}/5]` : "";
+    return `${shortDate(row[0])} ${row[1]}${mood} ${truncate(row[2], MAX_LOG_TEXT_CHARS)}`;
+  });
+
+  return [
+    { title: "目標", lines: goals },
+    { title: `食事（直近${CONTEXT_DAYS}日、食べた日付ごと）`, lines: mealLines },
+    { title: "運動", lines: exerciseLines.length > 0 ? exerciseLines : ["記録なし"] },
+    { title: "瞑想", lines: meditationLines.length > 0 ? meditationLines : ["記録なし"] },
+    { title: "ジャーナル", lines: journalLines.length > 0 ? journalLines : ["記録なし"] },
+  ];
+}
+
+/**
+ * 予算に収まるように要約を文字列にする。
+ * どのセクションも新しい記録から1行ずつ順番に採るので、予算が足りないときは各セクションの古い行から落ちる
+ */
+export function renderContext(sections: ContextSection[], budget: number): string {
+  const taken = sections.map(() => 0);
+  let used = sections.reduce((sum, s) => sum + estimateTokens(`【${s.title}】`), 0);
+  for (let i = 0, added = true; added; i++) {
+    added = false;
+    sections.forEach((section, j) => {
+      const line = section.lines[i];
+      if (line === undefined || taken[j] < i) return;
+      const cost = estimateTokens(line);
+      if (used + cost > budget) return;
+      used += cost;
+      taken[j]++;
+      added = true;
+    });
+  }
+  return sections
+    .map((section, j) => {
+      const omitted = section.lines.length - taken[j];
+      const lines = section.lines.slice(0, taken[j]);
+      if (omitted > 0) lines.push(`（ほか${omitted}件は省略）`);
+      return `【${section.title}】\n${lines.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+/* ==================================================
+   プロンプトの組み立て
+================================================== */
+
+/**
+ * システムプロンプト＋記録の要約、今回のメッセージを先に確保し、
+ * 残りの予算に収まるだけ会話履歴を新しい方から入れる
+ */
+export function buildCoachMessages({
+  sections,
+  history,
+  text,
+  now,
+}: {
+  sections: ContextSection[];
+  history: ConversationTurnRow[];
+  text: string;
+  now: Date;
+}): ChatMessage[] {
+  const today = toLocalDate(now);
+  const system =
+    `${SYSTEM_PROMPT}\n今日は ${shortDate(today)} です。\n\n` +
+    `# ユーザーの記録\n${renderContext(sections, CONTEXT_TOKEN_BUDGET)}`;
+  const message = truncate(text, MAX_MESSAGE_CHARS);
+
+  let remaining = PROMPT_TOKEN_BUDGET - estimateTokens(system) - estimateTokens(message);
+  const turns: ChatMessage[] = [];
+  for (const [, , role, content] of [...history].reverse()) {
+    const turn = truncate(content, MAX_TURN_CHARS);
+    remaining -= estimateTokens(turn);
+    if (remaining < 0) break;
+    turns.unshift({ role, content: turn });
+  }
+  // 履歴は古い方から切れるので、先頭がコーチの発言なら落として user から始める
+  if (turns[0]?.role === "assistant") turns.shift();
+
+  return [{ role: "system", content: system }, ...turns, { role: "user", content: message }];
+}
+
+/* ==================================================
+   返信
+================================================== */
+
+/** ====== 返信モデルの差し替え口 ====== */
+export interface CoachModel {
+  complete(messages: ChatMessage[]): Promise<string>;
+}
+
+export const openAICoachModel: CoachModel = {
+  async complete(messages) {
+    const completion = await callOpenAIWithRetry(messages, { maxRetries: 2, max_tokens: 400 });
+    return completion.choices?.[0]?.message?.content?.slice(0, 1000) ?? "";
+  },
+};
+
+/** 記録と会話履歴をもとに返信し、やりとりを会話履歴に残す */
+export async function replyAsCoach(
+  store: LogStore,
+  { userId, text, now }: { userId: string; text: string; now: Date },
+  model: CoachModel = openAICoachModel
+): Promise<string> {
+  const [sections, history] = await Promise.all([
+    buildCoachContext(store, userId, now),
+    store.getConversationTurns(userId, STORED_TURNS),
+  ]);
+  const messages = buildCoachMessages({ sections, history, text, now });
+  const tokens = messages.reduce((sum, m) => sum + estimateTokens(String(m.content)), 0);
+  console.log("[COACH][PROMPT]", messages.length, tokens);
+
+  const reply = (await model.complete(messages)).trim();
+  if (!reply) return FALLBACK_REPLY;
+
+  await store.appendConversationTurns(
+    userId,
+    [
+      [userId, now.toISOString(), "user", text],
+      [userId, new Date().toISOString(), "assistant", reply],
+    ],
+    STORED_TURNS
+  );
+  return reply;
+}
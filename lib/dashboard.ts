@@ -0,0 +1,194 @@
+// lib/dashboard.ts
+import type { DateRange, JournalLogRow, LogStore } from "@/lib/logStore";
+import { addDays, currentStreak, eachDate, startOfWeek, toLocalDate } from "@/lib/dates";
+import { NUTRIENTS, sumNutrients, type NutrientKey, type Nutrients } from "@/lib/nutrition";
+import { computeDailyTargets, percentOf, type DailyTargets } from "@/lib/targets";
+import { mealRowNutrients } from "@/lib/meals";
+import { exerciseMinutes } from "@/lib/exercise";
+import { meditationMinutes } from "@/lib/meditation";
+
+/** ====== 型定義 ====== */
+
+export type DashboardView = "daily" | "weekly";
+
+export type DashboardOptions = {
+  view: DashboardView;
+  days: number; // 栄養グラフの期間（今日まで）
+  query: string; // ジャーナルの検索語（空なら期間内を表示）
+};
+
+// 栄養グラフの1本分。週表示では記録のある日の1日平均
+export type NutritionPoint = {
+  start: string; // 日付（週表示では週の月曜日）
+  label: string;
+  nutrients: Nutrients;
+  burnedKcal: number;
+  loggedDays: number;
+};
+
+export type MicronutrientAverage = {
+  key: NutrientKey;
+  label: string;
+  unit: string;
+  average: number; // 記録のある日の1日平均
+  target: number | null;
+  percent: number | null;
+};
+
+export type ActivityDay = { date: string; minutes: number; sessions: number };
+
+export type ActivitySummary = {
+  days: ActivityDay[]; // カレンダーの期間（CALENDAR_WEEKS 週分）の各日
+  streak: number;
+  sessions: number; // 栄養グラフと同じ期間の回数と合計時間
+  totalMinutes: number;
+};
+
+export type DashboardData = {
+  options: DashboardOptions;
+  range: DateRange;
+  targets: DailyTargets | null;
+  nutrition: NutritionPoint[];
+  micronutrients: MicronutrientAverage[];
+  exercise: ActivitySummary;
+  meditation: ActivitySummary;
+  journal: JournalLogRow[]; // 新しい順
+};
+
+export const RANGE_OPTIONS = [7, 30, 90];
+const DEFAULT_DAYS = 30;
+// 運動・瞑想カレンダーに表示する週数
+export const CALENDAR_WEEKS = 12;
+const MAX_JOURNAL_ENTRIES = 50;
+
+export const MICRONUTRIENT_KEYS: NutrientKey[] = ["vitaminB6", "vitaminD", "magnesium", "iron", "zinc"];
+
+/** ====== URL のクエリ (?view=weekly&days=90&q=仕事) を解釈する ====== */
+export function parseDashboardOptions(params: Record<string, string | string[] | undefined>): DashboardOptions {
+  const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v) ?? "";
+  const days = Number(first(params.days));
+  return {
+    view: first(params.view) === "weekly" ? "weekly" : "daily",
+    days: RANGE_OPTIONS.includes(days) ? days : DEFAULT_DAYS,
+    query: first(params.q).trim(),
+  };
+}
+
+/* ==================================================
+   集計
+================================================== */
+
+function shortDate(date: string): string {
+  const [, m, d] = date.split("-");
+  return `${Number(m)}/${Number(d)}`;
+}
+
+function averageNutrients(list: Nutrients[]): Nutrients {
+  const total = sumNutrients(list);
+  if (list.length === 0) return total;
+  for (const { key } of NUTRIENTS) total[key] = Math.round((total[key] / list.length) * 10) / 10;
+  return total;
+}
+
+/** 日ごとの点を週ごとにまとめる（記録のある日の平均） */
+function groupByWeek(daily: NutritionPoint[]): NutritionPoint[] {
+  const weeks = new Map<string, NutritionPoint[]>();
+  for (const point of daily) {
+    const week = startOfWeek(point.start);
+    weeks.set(week, [...(weeks.get(week) ?? []), point]);
+  }
+  return [...weeks.entries()].map(([start, points]) => {
+    const logged = points.filter((p) => p.loggedDays > 0);
+    return {
+      start,
+      label: `${shortDate(start)}〜`,
+      nutrients: averageNutrients(logged.map((p) => p.nutrients)),
+      burnedKcal: Math.round(points.reduce((sum, p) => sum + p.burnedKcal, 0) / Math.max(1, logged.length)),
+      loggedDays: logged.length,
+    };
+  });
+}
+
+function summarizeActivity<T extends [string, ...unknown[]]>(
+  rows: T[],
+  minutesOf: (row: T) => number | null,
+  range: DateRange,
+  today: string
+): ActivitySummary {
+  const calendarStart = startOfWeek(addDays(today, -7 * (CALENDAR_WEEKS - 1)));
+  const days = eachDate(calendarStart, today).map((date) => {
+    const onDate = rows.filter((row) => row[0] === date);
+    return { date, sessions: onDate.length, minutes: onDate.reduce((sum, row) => sum + (minutesOf(row) ?? 0), 0) };
+  });
+  const inRange = rows.filter((row) => row[0] >= range.start && row[0] <= range.end);
+  return {
+    days,
+    streak: currentStreak(rows.map((row) => row[0]), today),
+    sessions: inRange.length,
+    totalMinutes: inRange.reduce((sum, row) => sum + (minutesOf(row) ?? 0), 0),
+  };
+}
+
+function matchesQuery(row: JournalLogRow, query: string): boolean {
+  const q = query.toLowerCase();
+  return [row[2], ...row[6], ...row[7]].some((text) => text.toLowerCase().includes(q));
+}
+
+/** ====== ダッシュボードの表示データをまとめて読み込む（Webhook と同じ LogStore 経由） ====== */
+export async function loadDashboard(
+  store: LogStore,
+  userId: string,
+  now: Date,
+  options: DashboardOptions
+): Promise<DashboardData> {
+  const today = toLocalDate(now);
+  // 週表示は月曜始まりの週がそろうように期間の先頭を週の頭に合わせる
+  const firstDay = addDays(today, -(options.days - 1));
+  const range = { start: options.view === "weekly" ? startOfWeek(firstDay) : firstDay, end: today };
+
+  const [meals, exercise, meditation, journal, profile] = await Promise.all([
+    store.getMealLogsByRange(userId, range.start, range.end),
+    store.getExerciseLogsByRange(userId, "ALL", "ALL"),
+    store.getMeditationLogsByRange(userId, "ALL", "ALL"),
+    store.getJournalLogsByRange(userId, options.query ? "ALL" : range.start, options.query ? "ALL" : range.end),
+    store.getProfile(userId),
+  ]);
+  const targets = profile ? computeDailyTargets(profile) : null;
+
+  const daily: NutritionPoint[] = eachDate(range.start, range.end).map((date) => {
+    const rows = meals.filter((row) => row[2] === date);
+    return {
+      start: date,
+      label: shortDate(date),
+      nutrients: sumNutrients(rows.map(mealRowNutrients)),
+      burnedKcal: exercise.filter((row) => row[0] === date).reduce((sum, row) => sum + (row[12] ?? 0), 0),
+      loggedDays: rows.length > 0 ? 1 : 0,
+    };
+  });
+
+  const loggedTotals = daily.filter((p) => p.loggedDays > 0).map((p) => p.nutrients);
+  const averages = averageNutrients(loggedTotals);
+  const micronutrients = NUTRIENTS.filter((n) => MICRONUTRIENT_KEYS.includes(n.key)).map(({ key, label, unit }) => ({
+    key,
+    label,
+    unit,
+    average: averages[key],
+    target: targets ? targets[key].target : null,
+    percent: targets && loggedTotals.length > 0 ? percentOf(averages[key], targets[key]) : null,
+  }));
+
+  const journalRows = options.query ? journal.filter((row) => matchesQuery(row, options.query)) : journal;
+
+  return {
+    options,
+    range,
+    targets,
+    nutrition: options.view === "weekly" ? groupByWeek(daily) : daily,
+    micronutrients,
+    exercise: summarizeActivity(exercise, exerciseMinutes, range, today),
+    meditation: summarizeActivity(meditation, meditationMinutes, range, today),
+    journal: journalRows
+      .sort((a, b) => b[0].localeCompare(a[0]) || b[1].localeCompare(a[1]))
+      .slice(0, MAX_JOURNAL_ENTRIES),
+  };
+}
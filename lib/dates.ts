@@ -0,0 +1,307 @@
+// lib/dates.ts
+import type { DateRange } from "@/lib/logStore";
+
+/** ====== タイムゾーン ======
+ * 日付・時刻はすべてユーザーのタイムゾーンで扱う（APP_TIMEZONE、既定 Asia/Tokyo）。
+ * サーバー（Vercel）は UTC で動くため、日付の算出に toISOString() や toTimeString() は使わないこと。
+ */
+export const DEFAULT_TIMEZONE = "Asia/Tokyo";
+
+export function getTimeZone(): string {
+  return process.env.APP_TIMEZONE || DEFAULT_TIMEZONE;
+}
+
+function localParts(at: Date, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  return Object.fromEntries(parts.map((p) => [p.type, p.value]));
+}
+
+/** ユーザーのタイムゾーンでの日付 (YYYY-MM-DD) */
+export function toLocalDate(at: Date, timeZone = getTimeZone()): string {
+  const p = localParts(at, timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+}
+
+/** ユーザーのタイムゾーンでの時刻 (HH:MM) */
+export function toLocalTime(at: Date, timeZone = getTimeZone()): string {
+  const p = localParts(at, timeZone);
+  return `${p.hour}:${p.minute}`;
+}
+
+/** ユーザーのタイムゾーンでの時 (0〜23) */
+export function localHour(at: Date, timeZone = getTimeZone()): number {
+  return Number(localParts(at, timeZone).hour);
+}
+
+/* ==================================================
+   YYYY-MM-DD の暦計算（タイムゾーンに依存しない）
+================================================== */
+
+function fromYmd(year: number, month: number, day: number): string {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.toISOString().split("T")[0];
+}
+
+function splitYmd(date: string): [number, number, number] {
+  const [y, m, d] = date.split("-").map(Number);
+  return [y, m, d];
+}
+
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = splitYmd(date);
+  return fromYmd(y, m, d + days);
+}
+
+/** start〜end の日数（両端を含む） */
+export function daysBetween(start: string, end: string): number {
+  const ms = Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`);
+  return Math.round(ms / (1000 * 60 * 60 * 24)) + 1;
+}
+
+/** 曜日（0=日曜 〜 6=土曜） */
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** その週の月曜日 */
+export function startOfWeek(date: string): string {
+  const day = weekdayOf(date) === 0 ? 7 : weekdayOf(date);
+  return addDays(date, -(day - 1));
+}
+
+export function startOfMonth(date: string): string {
+  const [y, m] = splitYmd(date);
+  return fromYmd(y, m, 1);
+}
+
+export function endOfMonth(date: string): string {
+  const [y, m] = splitYmd(date);
+  return fromYmd(y, m + 1, 0);
+}
+
+/** start〜end の日付を列挙 */
+export function eachDate(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) dates.push(d);
+  return dates;
+}
+
+/** today から遡って記録が続いている日数（今日の記録がまだ無ければ昨日から数える） */
+export function currentStreak(dates: string[], today: string): number {
+  const days = new Set(dates);
+  let day = days.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+/* ==================================================
+   自然言語の日付表現
+================================================== */
+
+const WEEKDAYS: [RegExp, number][] = [
+  [/日曜|sunday/, 0],
+  [/月曜|monday/, 1],
+  [/火曜|tuesday/, 2],
+  [/水曜|wednesday/, 3],
+  [/木曜|thursday/, 4],
+  [/金曜|friday/, 5],
+  [/土曜|saturday/, 6],
+];
+
+// 2025/10/3, 2025-10-03, 2025年10月3日（年があれば区切りは / - 年月 のどれでもよい）
+const YEAR_DATE = /(?<!\d)(\d{4})\s*[/\-年]\s*(\d{1,2})\s*[/\-月]\s*(\d{1,2})(?!\d)\s*日?/g;
+// 10月3日
+const MONTH_DAY = /(?<!\d)(\d{1,2})\s*月\s*(\d{1,2})(?!\d)\s*日?/g;
+// 10/3（分量と区別するため、前後が日付らしいときだけ使う。isSlashDate を参照）
+const SLASH_DATE = /(?<!\d)(\d{1,2})\s*\/\s*(\d{1,2})(?![\d/])/g;
+const QUANTITY_COUNTER = /^\s*(?:杯|膳|個|本|枚|切|皿|人前|カップ|玉|袋|パック|ホール|斤|丁|尾|食|程度|くらい|ぐらい)/;
+// 日付のあとに続く助詞・曜日・期間の区切り
+const DATE_FOLLOWER = /^\s*(?:の|に|は|から|まで|〜|~|～|-|ー|[(（]|[日月火水木金土]曜)/;
+const RANGE_END = /^\s*(?:〜|~|～|-|ー|から)\s*(?:\d{4}\s*[/\-年]\s*)?(?:(\d{1,2})\s*[/\-月]\s*)?(\d{1,2})(?!\d)\s*日?/;
+// 期間のまとめを頼むときの言葉（「N日間」を期間として読むかどうかの判定に使う）
+const SUMMARY_WORDS = /まとめ|振り返|ふりかえ|集計|合計|平均|サマリー|推移|summary|total|average/i;
+
+// 見つかった日付（year は書かれていなければ null。end は表現の直後の位置）
+type DateMatch = { year: number | null; month: number; day: number; end: number };
+
+/** 全角数字などを半角に揃える */
+function normalize(text: string): string {
+  return text
+    .replace(/[０-９／－]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .toLowerCase();
+}
+
+/**
+ * 「10/3」が日付か（「ピザ1/4」「りんご 3/4」「ご飯 2/3膳」は分量）。
+ * 後ろに「日」が付くか、文の頭にあるか、区切りのあとにあって助詞・曜日・期間の区切りが続くときだけ日付とみなす
+ */
+function isSlashDate(text: string, index: number, end: number): boolean {
+  const before = text.slice(0, index);
+  const after = text.slice(end);
+  if (/^\s*日/.test(after)) return true;
+  if (QUANTITY_COUNTER.test(after)) return false;
+  if (before.trim() === "") return true;
+  return /[\s、,。「（(]$/.test(before) && DATE_FOLLOWER.test(after);
+}
+
+/** 文の中で最初に出てくる日付の表現 */
+function findExplicitDate(text: string): DateMatch | null {
+  const found: (DateMatch & { index: number })[] = [];
+  for (const m of text.matchAll(YEAR_DATE)) {
+    const end = m.index! + m[0].length;
+    found.push({ index: m.index!, end, year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) });
+  }
+  for (const m of text.matchAll(MONTH_DAY)) {
+    const end = m.index! + m[0].length;
+    found.push({ index: m.index!, end, year: null, month: Number(m[1]), day: Number(m[2]) });
+  }
+  for (const m of text.matchAll(SLASH_DATE)) {
+    const end = m.index! + m[0].length;
+    if (!isSlashDate(text, m.index!, end)) continue;
+    found.push({ index: m.index!, end, year: null, month: Number(m[1]), day: Number(m[2]) });
+  }
+  // 「2025/10/3」の中の「10/3」より年から始まる方を採る
+  found.sort((a, b) => a.index - b.index || b.end - a.end);
+  return found[0] ?? null;
+}
+
+/** 実在する日付なら YYYY-MM-DD（2/30 や 4/31 は翌月に繰り越されるので null） */
+function validYmd(year: number, month: number, day: number): string | null {
+  const date = fromYmd(year, month, day);
+  const [y, m, d] = splitYmd(date);
+  return y === year && m === month && d === day ? date : null;
+}
+
+/** 年の無い日付は、今日以前で最も近い日付とみなす（2/29 はうるう年までさかのぼる） */
+function resolveExplicitDate({ year, month, day }: DateMatch, today: string): string | null {
+  const [ty] = splitYmd(today);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  if (year !== null) return validYmd(year, month, day);
+  for (let y = ty; y >= ty - 4; y--) {
+    const date = validYmd(y, month, day);
+    if (date && date <= today) return date;
+  }
+  return null;
+}
+
+/** 今日以前で最も近いその曜日（「先週の金曜」は前週の同じ曜日） */
+function resolveWeekday(text: string, today: string): string | null {
+  const hit = WEEKDAYS.find(([re]) => re.test(text));
+  if (!hit) return null;
+  const target = hit[1];
+
+  if (text.includes("先週") || text.includes("last week")) {
+    const monday = addDays(startOfWeek(today), -7);
+    return addDays(monday, target === 0 ? 6 : target - 1);
+  }
+  const diff = (weekdayOf(today) - target + 7) % 7;
+  return addDays(today, -diff);
+}
+
+/**
+ * 単一の日付表現を解釈する（今日・昨日・一昨日・N日前・10/3・10月3日・曜日）。
+ * 見つからなければ null。
+ */
+export function parseDateExpression(userText: string, now: Date, timeZone = getTimeZone()): string | null {
+  const text = normalize(userText);
+  const today = toLocalDate(now, timeZone);
+
+  // 「一昨日」は「昨日」を含むので先に判定する
+  if (text.includes("一昨日") || text.includes("おととい")) return addDays(today, -2);
+  if (text.includes("昨日") || text.includes("yesterday")) return addDays(today, -1);
+  if (text.includes("今日") || text.includes("today")) return today;
+
+  const daysAgo = text.match(/(\d+)\s*日前/);
+  if (daysAgo) return addDays(today, -Number(daysAgo[1]));
+
+  const explicit = findExplicitDate(text);
+  if (explicit) {
+    const date = resolveExplicitDate(explicit, today);
+    if (date) return date;
+  }
+
+  return resolveWeekday(text, today);
+}
+
+/**
+ * 期間の表現を解釈する（これまで・今週・先週・今月・先月・今年・過去N日・10/1〜10/15）。
+ * 「これまで」「全期間」は { start: "ALL", end: "ALL" }。見つからなければ null。
+ */
+export function parseDateRange(userText: string, now: Date, timeZone = getTimeZone()): DateRange | null {
+  const text = normalize(userText);
+  const today = toLocalDate(now, timeZone);
+
+  if (text.includes("これまで") || text.includes("全期間")) return { start: "ALL", end: "ALL" };
+
+  const first = findExplicitDate(text);
+  const rangeEnd = first && text.slice(first.end).match(RANGE_END);
+  if (first && rangeEnd) {
+    const start = resolveExplicitDate(first, today);
+    const [sy, sm] = start ? splitYmd(start) : [0, 0];
+    const endMonth = rangeEnd[1] ? Number(rangeEnd[1]) : sm;
+    const endDay = Number(rangeEnd[2]);
+    let end = start ? validYmd(sy, endMonth, endDay) : null;
+    if (start && end && end < start) end = validYmd(sy + 1, endMonth, endDay);
+    if (start && end) return { start, end };
+  }
+
+  // 「3日間走った」は運動の記録なので、「N日間」だけのときはまとめの依頼（か期間だけの文）に限る
+  const bareDays = text.match(/(\d+)\s*日間/);
+  const lastDays =
+    text.match(/(?:過去|直近|ここ)\s*(\d+)\s*日/) ??
+    (bareDays && (SUMMARY_WORDS.test(text) || /^\d+\s*日間$/.test(text.trim())) ? bareDays : null);
+  if (lastDays) {
+    const n = Math.max(1, Number(lastDays[1]));
+    return { start: addDays(today, -(n - 1)), end: today };
+  }
+
+  // 「先週の金曜」は単一の日付なので期間として扱わない
+  const hasWeekday = WEEKDAYS.some(([re]) => re.test(text));
+  if ((text.includes("先週") || text.includes("last week")) && !hasWeekday) {
+    const start = addDays(startOfWeek(today), -7);
+    return { start, end: addDays(start, 6) };
+  }
+  if (text.includes("今週") || text.includes("this week")) return { start: startOfWeek(today), end: today };
+
+  if (text.includes("先月") || text.includes("last month")) {
+    const start = startOfMonth(addDays(startOfMonth(today), -1));
+    return { start, end: endOfMonth(start) };
+  }
+  if (text.includes("今月") || text.includes("this month")) return { start: startOfMonth(today), end: today };
+
+  if (text.includes("今年") || text.includes("this year")) return { start: `${today.slice(0, 4)}-01-01`, end: today };
+
+  return null;
+}
+
+/** ====== 所要時間の表現（「30分」「1時間半」「1.5h」）を分に変換。見つからなければ null ====== */
+export function parseDurationMinutes(userText: string): number | null {
+  const text = normalize(userText);
+  let minutes = 0;
+  let found = false;
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:時間|hours?|hrs?|h)(半)?/);
+  if (hours) {
+    minutes += parseFloat(hours[1]) * 60 + (hours[2] ? 30 : 0);
+    found = true;
+  }
+  const mins = text.match(/(\d+(?:\.\d+)?)\s*(?:分|minutes?|mins?)/);
+  if (mins) {
+    minutes += parseFloat(mins[1]);
+    found = true;
+  }
+  return found ? Math.round(minutes) : null;
+}
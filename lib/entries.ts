@@ -0,0 +1,324 @@
+// lib/entries.ts
+import crypto from "crypto";
+import type {
+  ExerciseLogRow,
+  JournalLogRow,
+  LogStore,
+  MealItemRow,
+  MealLogRow,
+  MeditationLogRow,
+  MetricKind,
+  MetricLogRow,
+} from "@/lib/logStore";
+import { parseDateExpression, toLocalDate } from "@/lib/dates";
+import { getMetric, isMetricKind, METRIC_KINDS, metricValues } from "@/lib/metrics";
+
+/** ====== 記録ID ======
+ * seed を渡すと同じ seed から常に同じ ID を作る（Webhook の再送で同じ記録を作り直しても1行で済むように）
+ */
+export function newEntryId(seed?: string): string {
+  if (seed === undefined) return crypto.randomUUID();
+  const hex = crypto.createHash("sha256").update(seed).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/** ====== 種類をまたいだ記録の扱い ====== */
+export type LogEntry =
+  | { kind: "meal"; row: MealLogRow }
+  | { kind: "exercise"; row: ExerciseLogRow }
+  | { kind: "meditation"; row: MeditationLogRow }
+  | { kind: "journal"; row: JournalLogRow }
+  | { kind: MetricKind; row: MetricLogRow };
+
+const KIND_ICON: Record<"meal" | "exercise" | "meditation" | "journal", string> = {
+  meal: "🍽️",
+  exercise: "💪",
+  meditation: "🧘",
+  journal: "📓",
+};
+
+// 同じ時刻の記録の並び順（食事・運動・瞑想・ジャーナル、続いて指標をレジストリの順に）
+const ENTRY_KINDS: LogEntry["kind"][] = ["meal", "exercise", "meditation", "journal", ...METRIC_KINDS];
+
+function kindOrder(kind: LogEntry["kind"]): number {
+  return ENTRY_KINDS.indexOf(kind);
+}
+
+function isEntryKind(kind: string): kind is LogEntry["kind"] {
+  return (ENTRY_KINDS as string[]).includes(kind);
+}
+
+export function entryId(entry: LogEntry): string {
+  return entry.kind === "meal" ? entry.row[15] : entry.row[4];
+}
+
+export function formatEntry(entry: LogEntry): string {
+  if (isMetricKind(entry.kind)) {
+    const def = getMetric(entry.kind);
+    const values = metricValues(def, entry.row as MetricLogRow);
+    const text = def.fields
+      .filter((f) => values[f.key] !== null)
+      .map((f) => `${f.label} ${values[f.key]}${f.unit}`)
+      .join(" ");
+    return `${def.icon} ${entry.row[1]} ${text}`;
+  }
+  const icon = KIND_ICON[entry.kind];
+  if (entry.kind === "meal") {
+    const [, time, , mealType, input, kcal] = entry.row;
+    return `${icon} ${time} ${mealType || "食事"} ${input}（${kcal} kcal）`;
+  }
+  return `${icon} ${entry.row[1]} ${entry.row[2]}`;
+}
+
+/** 期間の記録を読む（kinds を渡すとその種類のタブだけ読む） */
+async function fetchEntries(
+  store: LogStore,
+  userId: string,
+  start: string,
+  end: string,
+  kinds: LogEntry["kind"][] = ENTRY_KINDS
+): Promise<LogEntry[]> {
+  const lists = await Promise.all(
+    kinds.map(async (kind): Promise<LogEntry[]> => {
+      if (kind === "meal") return (await store.getMealLogsByRange(userId, start, end)).map((row) => ({ kind, row }));
+      if (kind === "exercise") {
+        return (await store.getExerciseLogsByRange(userId, start, end)).map((row) => ({ kind, row }));
+      }
+      if (kind === "meditation") {
+        return (await store.getMeditationLogsByRange(userId, start, end)).map((row) => ({ kind, row }));
+      }
+      if (kind === "journal") {
+        return (await store.getJournalLogsByRange(userId, start, end)).map((row) => ({ kind, row }));
+      }
+      return (await store.getMetricLogsByRange(kind, userId, start, end)).map((row) => ({ kind, row }));
+    })
+  );
+  return lists.flat();
+}
+
+/* ==================================================
+   チャットで付けた記録の履歴
+   記録の Date/Time は分単位で、瞑想セッションは開始時刻、取り込んだ歩数は 23:59 になるので、
+   「最後に記録したもの」は付けた順の履歴から探す
+================================================== */
+
+// ユーザーごとに残す履歴の件数（続けて「取り消し」できる回数の目安）
+const RECENT_ENTRIES_KEPT = 20;
+
+// 取り消し・修正を済ませた印として履歴に残す行の Kind（Id はそのイベントの記録ID）
+const EDIT_MARK = "edit";
+
+/** 記録を付けたことを履歴に残す（date はその記録が載っている日付で、食事は MealDate） */
+export async function rememberEntry(
+  store: LogStore,
+  { userId, kind, id, date }: { userId: string; kind: LogEntry["kind"]; id: string; date: string }
+): Promise<void> {
+  await store.appendRecentEntry([userId, new Date().toISOString(), kind, id, date], RECENT_ENTRIES_KEPT);
+}
+
+/** そのイベントの取り消し・修正がもう済んでいるか（やり直しで別の記録を消したり、二重に直したりしないように） */
+async function isEditApplied(store: LogStore, userId: string, id: string | undefined): Promise<boolean> {
+  if (!id) return false;
+  const recent = await store.getRecentEntries(userId, RECENT_ENTRIES_KEPT);
+  return recent.some(([, , kind, entry]) => kind === EDIT_MARK && entry === id);
+}
+
+async function markEditApplied(store: LogStore, userId: string, id: string | undefined): Promise<void> {
+  if (id) await store.appendRecentEntry([userId, new Date().toISOString(), EDIT_MARK, id, ""], RECENT_ENTRIES_KEPT);
+}
+
+/** 指定日の記録を時刻順に並べる（番号での削除はこの順番を使う） */
+export async function listEntriesByDate(store: LogStore, userId: string, date: string): Promise<LogEntry[]> {
+  const entries = await fetchEntries(store, userId, date, date);
+  return entries.sort(
+    (a, b) => a.row[1].localeCompare(b.row[1]) || kindOrder(a.kind) - kindOrder(b.kind)
+  );
+}
+
+/** チャットで最後に記録したもの（kind・mealType で絞り込み可。取り込んだ記録は含まない） */
+export async function findLastEntry(
+  store: LogStore,
+  userId: string,
+  { kind, mealType }: { kind?: LogEntry["kind"]; mealType?: string } = {}
+): Promise<LogEntry | null> {
+  const recent = await store.getRecentEntries(userId, RECENT_ENTRIES_KEPT);
+  const checked = new Set<string>();
+  // 新しい履歴から順に、まだ残っている（削除されていない）記録を探す
+  for (const [, , entryKind, id, date] of [...recent].reverse()) {
+    if (checked.has(id) || (kind && entryKind !== kind)) continue;
+    checked.add(id);
+    const entry = await findEntryById(store, userId, { kind: entryKind, id, date });
+    if (entry && (!mealType || (entry.kind === "meal" && entry.row[3] === mealType))) return entry;
+  }
+  return null;
+}
+
+/** 記録IDで探す（クイックリプライから。date はその記録が載っている日付で、食事は MealDate） */
+export async function findEntryById(
+  store: LogStore,
+  userId: string,
+  { kind, id, date }: { kind: string; id: string; date: string }
+): Promise<LogEntry | null> {
+  if (!isEntryKind(kind)) return null;
+  const entries = await fetchEntries(store, userId, date, date, [kind]);
+  return entries.find((e) => entryId(e) === id) ?? null;
+}
+
+/** 食事の種類を変える（内訳の行もそろえる）。変更後の行を返す */
+export async function changeMealType(
+  store: LogStore,
+  userId: string,
+  meal: { kind: "meal"; row: MealLogRow },
+  mealType: string
+): Promise<MealLogRow> {
+  const mealId = meal.row[15];
+  const items = await store.getMealItemLogs(userId, mealId);
+  const row: MealLogRow = [...meal.row];
+  row[3] = mealType;
+  await store.updateMealLogWithItems(
+    row,
+    items.map((item) => {
+      const updated: MealItemRow = [...item];
+      updated[3] = mealType;
+      return updated;
+    })
+  );
+  return row;
+}
+
+export async function deleteEntry(store: LogStore, userId: string, entry: LogEntry): Promise<boolean> {
+  if (entry.kind === "meal") return store.deleteMealLog(userId, entryId(entry));
+  if (isMetricKind(entry.kind)) return store.deleteMetricLog(entry.kind, userId, entryId(entry));
+  return store.deleteSimpleLog(entry.kind, userId, entryId(entry));
+}
+
+/* ==================================================
+   チャットからの取り消し・修正・削除
+================================================== */
+
+const MEAL_TYPES = "朝食|昼食|夕食|間食";
+
+export type EditCommand =
+  | { kind: "undo" }
+  | { kind: "list"; date: string }
+  | { kind: "delete"; date: string; index: number }
+  | { kind: "changeMealType"; from: string | null; to: string }
+  | { kind: "scaleMeal"; from: string | null; factor: number };
+
+/** 「半分」「3分の1」「7割」「80%」「1.5倍」を倍率に変換 */
+function parseFactor(text: string): number | null {
+  if (text.includes("半分")) return 0.5;
+  const fraction = text.match(/(\d+)\s*分の\s*(\d+)/);
+  if (fraction) return Number(fraction[2]) / Number(fraction[1]);
+  const wari = text.match(/(\d+)\s*割/);
+  if (wari) return Number(wari[1]) / 10;
+  const percent = text.match(/(\d+)\s*[%％]/);
+  if (percent) return Number(percent[1]) / 100;
+  const times = text.match(/(\d+(?:\.\d+)?)\s*倍/);
+  if (times) return Number(times[1]);
+  return null;
+}
+
+/**
+ * 例: 「取り消し」「今日の記録を見せて」「昨日の記録」「3番を削除」
+ * 「さっきの昼食を夕食に変更」「最後の食事は半分だけ食べた」
+ */
+export function parseEditCommand(userText: string, now: Date): EditCommand | null {
+  const text = userText
+    .trim()
+    .replace(/[０-９．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0));
+
+  if (/^(?:さっきの(?:記録を?)?)?(?:取り消し|取消し?|とりけし|元に戻して|undo)[。!！]?$/i.test(text)) {
+    return { kind: "undo" };
+  }
+
+  const date = () => parseDateExpression(text, now) ?? toLocalDate(now);
+
+  const del = text.match(/(\d+)\s*番?\s*(?:を|の記録を)?\s*(?:削除|消して|けして)/) ?? text.match(/^削除\s*(\d+)/);
+  if (del) return { kind: "delete", date: date(), index: Number(del[1]) };
+
+  if (/記録(?:を)?(?:見せて|みせて|一覧|確認)|^(?:今日|昨日|一昨日|おととい)?の?記録[?？]?$/.test(text)) {
+    return { kind: "list", date: date() };
+  }
+
+  const change = text.match(
+    new RegExp(`(?:(?:さっき|最後|直前)の)?(${MEAL_TYPES}|食事)を(${MEAL_TYPES})に(?:変更|して|修正|直して)`)
+  );
+  if (change) return { kind: "changeMealType", from: change[1] === "食事" ? null : change[1], to: change[2] };
+
+  const scale = text.match(new RegExp(`(?:さっき|最後|直前)の(${MEAL_TYPES}|食事)`));
+  const factor = parseFactor(text);
+  if (scale && factor !== null && factor > 0 && /食べ|だけ|残し/.test(text)) {
+    return { kind: "scaleMeal", from: scale[1] === "食事" ? null : scale[1], factor };
+  }
+
+  return null;
+}
+
+function scaleRow<T extends MealLogRow | MealItemRow>(row: T, from: number, factor: number): T {
+  const scaled = [...row] as T;
+  for (let i = from; i < from + 9; i++) {
+    scaled[i] = Math.round(Number(row[i] || 0) * factor * 10) / 10;
+  }
+  return scaled;
+}
+
+/**
+ * コマンドを実行して返信テキストを返す。
+ * id はイベントの記録IDで、同じイベントのやり直し（runJob の再試行・Webhook の再送）では何も変えない
+ */
+export async function applyEditCommand(
+  store: LogStore,
+  userId: string,
+  cmd: EditCommand,
+  id?: string
+): Promise<string> {
+  if (cmd.kind === "list") {
+    const entries = await listEntriesByDate(store, userId, cmd.date);
+    if (entries.length === 0) return `${cmd.date} の記録はありません📭`;
+    const lines = entries.map((e, i) => `${i + 1}. ${formatEntry(e)}`);
+    return `${cmd.date} の記録\n${lines.join("\n")}\n\n削除するときは「2番を削除」のように送ってください。`;
+  }
+
+  if (await isEditApplied(store, userId, id)) return "この操作はもう反映されています✅";
+  const reply = await applyChange(store, userId, cmd);
+  await markEditApplied(store, userId, id);
+  return reply;
+}
+
+async function applyChange(
+  store: LogStore,
+  userId: string,
+  cmd: Exclude<EditCommand, { kind: "list" }>
+): Promise<string> {
+  if (cmd.kind === "undo") {
+    const last = await findLastEntry(store, userId);
+    if (!last) return "取り消せる記録がありません📭";
+    await deleteEntry(store, userId, last);
+    return `取り消しました🗑️\n${formatEntry(last)}`;
+  }
+
+  if (cmd.kind === "delete") {
+    const entries = await listEntriesByDate(store, userId, cmd.date);
+    const entry = entries[cmd.index - 1];
+    if (!entry) return `${cmd.date} の${cmd.index}番の記録が見つかりません。「記録を見せて」で番号を確認してください。`;
+    await deleteEntry(store, userId, entry);
+    return `削除しました🗑️\n${formatEntry(entry)}`;
+  }
+
+  const last = await findLastEntry(store, userId, { kind: "meal", mealType: cmd.from ?? undefined });
+  if (!last || last.kind !== "meal") return "修正できる食事の記録が見つかりません📭";
+
+  if (cmd.kind === "changeMealType") {
+    const row = await changeMealType(store, userId, last, cmd.to);
+    return `${last.row[3] || "食事"}を${cmd.to}に変更しました✏️\n${formatEntry({ kind: "meal", row })}`;
+  }
+
+  const mealId = entryId(last);
+  const items = await store.getMealItemLogs(userId, mealId);
+
+  const row = scaleRow(last.row, 5, cmd.factor);
+  row[4] = `${last.row[4]}（×${cmd.factor}）`;
+  await store.updateMealLogWithItems(row, items.map((item) => scaleRow(item, 6, cmd.factor)));
+  return `栄養素を${Math.round(cmd.factor * 100)}%に修正しました✏️\n${formatEntry({ kind: "meal", row })}`;
+}
@@ -0,0 +1,254 @@
+// lib/exercise.ts
+import type { ExerciseIntensity, ExerciseLogRow, LogStore } from "@/lib/logStore";
+import { parseDurationMinutes, toLocalDate, toLocalTime } from "@/lib/dates";
+import { newEntryId, rememberEntry } from "@/lib/entries";
+import { PROFILE_HINT } from "@/lib/profile";
+
+/** ====== 型定義 ====== */
+export type ExerciseDetails = {
+  activity: string;
+  durationMin: number | null;
+  distanceKm: number | null;
+  sets: number | null;
+  reps: number | null;
+  weightKg: number | null;
+  intensity: ExerciseIntensity;
+};
+
+/* ==================================================
+   種目と METs（身体活動のメッツ表 / Compendium of Physical Activities をもとに丸めた値）
+================================================== */
+
+type Activity = {
+  name: string;
+  pattern: RegExp;
+  met: Record<ExerciseIntensity, number>;
+  speedKmh?: number; // 距離だけ分かるときに時間を見積もる標準的な速さ
+};
+
+// 上から順に判定し、最初に当てはまった種目を使う
+const ACTIVITIES: Activity[] = [
+  {
+    name: "筋トレ",
+    pattern: /筋トレ|ベンチ|スクワット|デッドリフト|腕立て|懸垂|腹筋|ダンベル|バーベル|筋力|weight/,
+    met: { low: 3.5, moderate: 5.0, high: 6.0 },
+  },
+  {
+    name: "ランニング",
+    pattern: /ランニング|ジョギング|ジョグ|マラソン|走|run|jog/,
+    met: { low: 7.0, moderate: 9.8, high: 11.5 },
+    speedKmh: 9,
+  },
+  {
+    name: "サイクリング",
+    pattern: /自転車|サイクリング|ロードバイク|エアロバイク|cycling|bike/,
+    met: { low: 4.0, moderate: 6.8, high: 10.0 },
+    speedKmh: 18,
+  },
+  { name: "水泳", pattern: /水泳|泳|スイミング|swim/, met: { low: 5.8, moderate: 8.3, high: 9.8 }, speedKmh: 2 },
+  {
+    name: "ウォーキング",
+    pattern: /ウォーキング|散歩|歩|walk/,
+    met: { low: 2.8, moderate: 3.5, high: 4.3 },
+    speedKmh: 4.5,
+  },
+  { name: "ヨガ", pattern: /ヨガ|ストレッチ|ピラティス|yoga/, met: { low: 2.3, moderate: 2.5, high: 3.0 } },
+];
+
+const OTHER_ACTIVITY: Activity = { name: "運動", pattern: /./, met: { low: 3.5, moderate: 4.5, high: 6.0 } };
+
+// プロフィールが無いときに消費カロリーの計算に使う体重
+export const DEFAULT_WEIGHT_KG = 60;
+// 筋トレで時間が書かれていないときの1セットあたりの所要時間（休憩込み）
+const MINUTES_PER_SET = 3;
+
+function findActivity(name: string): Activity {
+  return ACTIVITIES.find((a) => a.name === name) ?? OTHER_ACTIVITY;
+}
+
+/* ==================================================
+   本文の解釈
+================================================== */
+
+function normalize(text: string): string {
+  return text
+    .replace(/[０-９．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[×✕＊*]/g, "x")
+    .toLowerCase();
+}
+
+/**
+ * 例: 「30分ジョギング5km」「筋トレ ベンチ60kg×10×3」「スクワット 10回3セット」「軽めに散歩40分」
+ * 読み取れない項目は null。
+ */
+export function parseExercise(userText: string): ExerciseDetails {
+  let text = normalize(userText);
+  const activity = ACTIVITIES.find((a) => a.pattern.test(text)) ?? OTHER_ACTIVITY;
+
+  // 重量 × 回数 × セット（「60kg×10×3」「60キロx10回x3セット」）。距離の「キロ」と混同しないよう先に取り除く
+  let weightKg: number | null = null;
+  let reps: number | null = null;
+  let sets: number | null = null;
+  const strength = text.match(/(\d+(?:\.\d+)?)\s*(?:kg|キロ)\s*x\s*(\d+)\s*回?\s*(?:x\s*(\d+)\s*(?:セット|set)?)?/);
+  if (strength) {
+    weightKg = parseFloat(strength[1]);
+    reps = Number(strength[2]);
+    sets = strength[3] ? Number(strength[3]) : 1;
+    text = text.replace(strength[0], " ");
+  } else {
+    const repsSets = text.match(/(\d+)\s*回\s*x?\s*(\d+)\s*(?:セット|set)/);
+    if (repsSets) {
+      reps = Number(repsSets[1]);
+      sets = Number(repsSets[2]);
+      text = text.replace(repsSets[0], " ");
+    } else {
+      const setsOnly = text.match(/(\d+)\s*(?:セット|set)/);
+      if (setsOnly) sets = Number(setsOnly[1]);
+    }
+  }
+
+  let distanceKm: number | null = null;
+  if (activity.name === "筋トレ") {
+    // 「ベンチ60キロ」のキロは重量
+    const weight = text.match(/(\d+(?:\.\d+)?)\s*(?:kg|キロ)/);
+    if (weight && weightKg === null) weightKg = parseFloat(weight[1]);
+  } else {
+    const km = text.match(/(\d+(?:\.\d+)?)\s*(?:km|キロ(?:メートル)?)/);
+    const meters = text.match(/(\d+(?:\.\d+)?)\s*(?:m(?![a-z])|メートル)/);
+    if (km) distanceKm = parseFloat(km[1]);
+    else if (meters) distanceKm = parseFloat(meters[1]) / 1000;
+  }
+
+  const durationMin = parseDurationMinutes(text);
+
+  let intensity: ExerciseIntensity = "moderate";
+  if (/きつ|ハード|全力|インターバル|ダッシュ|高強度|激し|hiit/.test(text)) intensity = "high";
+  else if (/軽め|軽く|ゆっくり|のんびり|低強度|ゆるく/.test(text)) intensity = "low";
+
+  return { activity: activity.name, durationMin, distanceKm, sets, reps, weightKg, intensity };
+}
+
+/* ==================================================
+   消費カロリーの推定
+================================================== */
+
+/** 時間が書かれていなければ、距離やセット数から見積もる（見積もれなければ null） */
+function effectiveMinutes(details: ExerciseDetails, activity: Activity): number | null {
+  if (details.durationMin !== null) return details.durationMin;
+  if (details.distanceKm !== null && activity.speedKmh) return (details.distanceKm / activity.speedKmh) * 60;
+  if (details.sets !== null) return details.sets * MINUTES_PER_SET;
+  return null;
+}
+
+/** ランニングは速さが分かれば METs ≒ 時速 (km/h) で近似する */
+function metsOf(details: ExerciseDetails, activity: Activity): number {
+  if (activity.name === "ランニング" && details.distanceKm !== null && details.durationMin) {
+    const speed = details.distanceKm / (details.durationMin / 60);
+    return Math.min(16, Math.max(6, speed));
+  }
+  return activity.met[details.intensity];
+}
+
+/** 消費カロリー (kcal) = METs × 体重 (kg) × 時間 (h) */
+export function estimateBurnKcal(details: ExerciseDetails, weightKg: number): number | null {
+  const activity = findActivity(details.activity);
+  const minutes = effectiveMinutes(details, activity);
+  if (minutes === null) return null;
+  return Math.round(metsOf(details, activity) * weightKg * (minutes / 60));
+}
+
+/* ==================================================
+   行の変換と記録
+================================================== */
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** 列が足りない古い行やシートの文字列を ExerciseLogRow に揃える（詳細列が無ければ本文から解釈し直す） */
+export function normalizeExerciseRow(row: unknown[]): ExerciseLogRow {
+  const base: [string, string, string, string, string] = [
+    String(row[0] ?? ""),
+    String(row[1] ?? ""),
+    String(row[2] ?? ""),
+    String(row[3] ?? ""),
+    String(row[4] ?? ""),
+  ];
+  if (!row[5]) {
+    const details = parseExercise(base[2]);
+    return [
+      ...base,
+      details.activity,
+      details.durationMin,
+      details.distanceKm,
+      details.sets,
+      details.reps,
+      details.weightKg,
+      details.intensity,
+      null,
+    ];
+  }
+  const intensity = row[11] === "low" || row[11] === "high" ? row[11] : "moderate";
+  return [
+    ...base,
+    String(row[5]),
+    toNumberOrNull(row[6]),
+    toNumberOrNull(row[7]),
+    toNumberOrNull(row[8]),
+    toNumberOrNull(row[9]),
+    toNumberOrNull(row[10]),
+    intensity,
+    toNumberOrNull(row[12]),
+  ];
+}
+
+/** 集計用の時間（分）。時間が書かれていない記録は null */
+export function exerciseMinutes(row: ExerciseLogRow): number | null {
+  return row[6] ?? parseDurationMinutes(row[2]);
+}
+
+const INTENSITY_LABEL: Record<ExerciseIntensity, string> = { low: "軽め", moderate: "ふつう", high: "きつめ" };
+
+export function formatExercise(details: ExerciseDetails, kcal: number | null): string {
+  const parts = [details.activity];
+  if (details.durationMin !== null) parts.push(`${details.durationMin}分`);
+  if (details.distanceKm !== null) parts.push(`${details.distanceKm}km`);
+  if (details.weightKg !== null) parts.push(`${details.weightKg}kg`);
+  if (details.reps !== null) parts.push(`${details.reps}回`);
+  if (details.sets !== null) parts.push(`${details.sets}セット`);
+  parts.push(`強度: ${INTENSITY_LABEL[details.intensity]}`);
+  const burn = kcal !== null ? `\n推定消費カロリー: ${kcal} kcal` : "\n時間か距離が分かれば消費カロリーも計算します⏱️";
+  return parts.join(" / ") + burn;
+}
+
+/** ====== 運動を解釈して記録し、返信テキストを返す（id は再送時に同じ記録を作らないためのもの） ====== */
+export async function logExercise(
+  store: LogStore,
+  { userId, at, text, id = newEntryId() }: { userId: string; at: Date; text: string; id?: string }
+): Promise<string> {
+  const details = parseExercise(text);
+  const profile = await store.getProfile(userId);
+  const kcal = estimateBurnKcal(details, profile ? profile[3] : DEFAULT_WEIGHT_KG);
+
+  await store.appendExerciseLog([
+    toLocalDate(at),
+    toLocalTime(at),
+    text,
+    userId,
+    id,
+    details.activity,
+    details.durationMin,
+    details.distanceKm,
+    details.sets,
+    details.reps,
+    details.weightKg,
+    details.intensity,
+    kcal,
+  ]);
+  await rememberEntry(store, { userId, kind: "exercise", id, date: toLocalDate(at) });
+
+  const hint = profile || kcal === null ? "" : `\n（体重${DEFAULT_WEIGHT_KG}kgとして計算）\n${PROFILE_HINT}`;
+  return `運動を記録しました💪\n${text}\n${formatExercise(details, kcal)}${hint}`;
+}
@@ -0,0 +1,377 @@
+// lib/fileStore.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { normalizeUserRow } from "@/lib/reminders";
+import { normalizeExerciseRow } from "@/lib/exercise";
+import { normalizeMeditationRow } from "@/lib/meditation";
+import { normalizeJournalRow } from "@/lib/journal";
+import { getMetric, normalizeMetricRow } from "@/lib/metrics";
+import type {
+  ConversationTurnRow,
+  ExerciseLogRow,
+  JournalLogRow,
+  LogStore,
+  MealItemRow,
+  MealLogRow,
+  MeditationLogRow,
+  MeditationSessionRow,
+  MetricKind,
+  MetricLogRow,
+  ProfileRow,
+  RecentEntryRow,
+  SimpleLogKind,
+  SimpleLogRow,
+  UserRow,
+  WebhookEventRow,
+} from "@/lib/logStore";
+
+/** ====== ファイルの中身 ====== */
+type FileData = {
+  meal: MealLogRow[];
+  mealItems: MealItemRow[];
+  exercise: ExerciseLogRow[];
+  meditation: MeditationLogRow[];
+  meditationSessions: MeditationSessionRow[];
+  journal: JournalLogRow[];
+  metrics: Partial<Record<MetricKind, MetricLogRow[]>>;
+  conversations: ConversationTurnRow[];
+  recentEntries: RecentEntryRow[];
+  webhookEvents: WebhookEventRow[];
+  users: UserRow[];
+  profiles: ProfileRow[];
+};
+
+function emptyData(): FileData {
+  return {
+    meal: [],
+    mealItems: [],
+    exercise: [],
+    meditation: [],
+    meditationSessions: [],
+    journal: [],
+    metrics: {},
+    conversations: [],
+    recentEntries: [],
+    webhookEvents: [],
+    users: [],
+    profiles: [],
+  };
+}
+
+/** ====== ローカル JSON ファイル実装（オフライン開発用） ====== */
+export function createFileLogStore(filePath: string): LogStore {
+  const fullPath = path.resolve(filePath);
+
+  return createDataLogStore({
+    async load() {
+      try {
+        const text = await fs.readFile(fullPath, "utf8");
+        return { ...emptyData(), ...(JSON.parse(text) as Partial<FileData>) };
+      } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return emptyData();
+        throw e;
+      }
+    },
+    async save(data) {
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      const tmp = `${fullPath}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(tmp, fullPath);
+    },
+  });
+}
+
+/** ====== メモリ上の実装（シミュレーター用。プロセスが終わると消える） ====== */
+export function createMemoryLogStore(): LogStore {
+  // ファイルと同じく読み書きのたびに複製し、呼び出し側が行を書き換えても保存内容に影響しないようにする
+  let text = JSON.stringify(emptyData());
+  return createDataLogStore({
+    async load() {
+      return JSON.parse(text) as FileData;
+    },
+    async save(data) {
+      text = JSON.stringify(data);
+    },
+  });
+}
+
+/** ====== 読み込み・保存の方法だけが違う共通の実装 ====== */
+function createDataLogStore({
+  load,
+  save,
+}: {
+  load: () => Promise<FileData>;
+  save: (data: FileData) => Promise<void>;
+}): LogStore {
+  // 同一プロセス内の書き込みを直列化する
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function update<T>(fn: (data: FileData) => T): Promise<T> {
+    const next = queue.then(async () => {
+      const data = await load();
+      const result = fn(data);
+      await save(data);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function getSimpleLogsByRange<K extends SimpleLogKind>(
+    kind: K,
+    userId: string,
+    start: string,
+    end: string
+  ): Promise<FileData[K]> {
+    const rows = (await load())[kind].filter((row) => row[3] === userId) as FileData[K];
+    if (start === "ALL" && end === "ALL") return rows;
+    return rows.filter((row) => row[0] >= start && row[0] <= end) as FileData[K];
+  }
+
+  /** 既にある UserId・記録IDの行を除く（userIdIndex の次の列が記録ID） */
+  function withoutExisting<T extends unknown[]>(existing: unknown[][], rows: T[], userIdIndex: number): T[] {
+    const key = (row: unknown[]) => `${row[userIdIndex]}\t${row[userIdIndex + 1]}`;
+    const keys = new Set(existing.map(key));
+    return rows.filter((row) => !keys.has(key(row)));
+  }
+
+  async function getUserMealLogs(userId: string): Promise<MealLogRow[]> {
+    const data = await load();
+    return data.meal.filter((row) => row[14] === userId);
+  }
+
+  return {
+    async appendMealLog(row) {
+      await update((data) => data.meal.push(...withoutExisting(data.meal, [row], 14)));
+    },
+
+    async appendMealLogs(rows) {
+      await update((data) => data.meal.push(...withoutExisting(data.meal, rows, 14)));
+    },
+
+    async getMealLogsByDate(userId, date) {
+      const rows = await getUserMealLogs(userId);
+      return rows.filter((row) => row[2] === date);
+    },
+
+    async getMealLogsByRange(userId, start, end) {
+      const rows = await getUserMealLogs(userId);
+      if (start === "ALL" && end === "ALL") return rows;
+      return rows.filter((row) => row[2] >= start && row[2] <= end);
+    },
+
+    async getMealLogDateRange(userId) {
+      const dates = (await getUserMealLogs(userId)).map((r) => r[2]).filter(Boolean).sort();
+      if (dates.length === 0) return null;
+      return { start: dates[0], end: dates[dates.length - 1] };
+    },
+
+    async appendMealItemLogs(rows) {
+      await update((data) => data.mealItems.push(...withoutExisting(data.mealItems, rows, 15)));
+    },
+
+    async getMealItemLogs(userId, mealId) {
+      return (await load()).mealItems.filter((row) => row[15] === userId && row[16] === mealId);
+    },
+
+    async updateMealLog(row) {
+      return update((data) => {
+        const index = data.meal.findIndex((r) => r[14] === row[14] && r[15] === row[15]);
+        if (index === -1) return false;
+        data.meal[index] = row;
+        return true;
+      });
+    },
+
+    async deleteMealLog(userId, id) {
+      return update((data) => {
+        const before = data.meal.length;
+        data.meal = data.meal.filter((r) => !(r[14] === userId && r[15] === id));
+        data.mealItems = data.mealItems.filter((r) => !(r[15] === userId && r[16] === id));
+        return data.meal.length < before;
+      });
+    },
+
+    async updateMealLogWithItems(row, items) {
+      return update((data) => {
+        const index = data.meal.findIndex((r) => r[14] === row[14] && r[15] === row[15]);
+        if (index === -1) return false;
+        data.meal[index] = row;
+        data.mealItems = data.mealItems.filter((r) => !(r[15] === row[14] && r[16] === row[15]));
+        data.mealItems.push(...items);
+        return true;
+      });
+    },
+
+    async appendExerciseLog(row) {
+      await update((data) => data.exercise.push(...withoutExisting(data.exercise, [row], 3)));
+    },
+
+    async appendMeditationLog(row) {
+      await update((data) => data.meditation.push(...withoutExisting(data.meditation, [row], 3)));
+    },
+
+    async appendJournalLog(row) {
+      await update((data) => data.journal.push(...withoutExisting(data.journal, [row], 3)));
+    },
+
+    async appendExerciseLogs(rows) {
+      await update((data) => data.exercise.push(...withoutExisting(data.exercise, rows, 3)));
+    },
+
+    async appendMeditationLogs(rows) {
+      await update((data) => data.meditation.push(...withoutExisting(data.meditation, rows, 3)));
+    },
+
+    async appendJournalLogs(rows) {
+      await update((data) => data.journal.push(...withoutExisting(data.journal, rows, 3)));
+    },
+
+    // 詳細列の無い古い行は本文から解釈し直す
+    getExerciseLogsByRange: async (userId, start, end) =>
+      (await getSimpleLogsByRange("exercise", userId, start, end)).map(normalizeExerciseRow),
+    getMeditationLogsByRange: async (userId, start, end) =>
+      (await getSimpleLogsByRange("meditation", userId, start, end)).map(normalizeMeditationRow),
+    getJournalLogsByRange: async (userId, start, end) =>
+      (await getSimpleLogsByRange("journal", userId, start, end)).map(normalizeJournalRow),
+
+    async updateSimpleLog(kind, row) {
+      return update((data) => {
+        const index = data[kind].findIndex((r) => r[3] === row[3] && r[4] === row[4]);
+        if (index === -1) return false;
+        // 運動・瞑想ログの詳細列（6列目以降）は残す
+        data[kind][index].splice(0, row.length, ...row);
+        return true;
+      });
+    },
+
+    async deleteSimpleLog(kind, userId, id) {
+      return update((data) => {
+        const rows: (ExerciseLogRow | MeditationLogRow | JournalLogRow)[] = data[kind];
+        const index = rows.findIndex((r) => r[3] === userId && r[4] === id);
+        if (index === -1) return false;
+        rows.splice(index, 1);
+        return true;
+      });
+    },
+
+    async appendMetricLog(kind, row) {
+      await update((data) => {
+        const existing = data.metrics[kind] ?? [];
+        data.metrics[kind] = [...existing, ...withoutExisting(existing, [row], 3)];
+      });
+    },
+
+    async appendMetricLogs(kind, rows) {
+      await update((data) => {
+        const existing = data.metrics[kind] ?? [];
+        data.metrics[kind] = [...existing, ...withoutExisting(existing, rows, 3)];
+      });
+    },
+
+    async getMetricLogsByRange(kind, userId, start, end) {
+      const def = getMetric(kind);
+      const rows = ((await load()).metrics[kind] ?? []).filter((row) => row[3] === userId);
+      const inRange = start === "ALL" && end === "ALL" ? rows : rows.filter((row) => row[0] >= start && row[0] <= end);
+      return inRange.map((row) => normalizeMetricRow(def, row));
+    },
+
+    async deleteMetricLog(kind, userId, id) {
+      return update((data) => {
+        const rows = data.metrics[kind] ?? [];
+        data.metrics[kind] = rows.filter((r) => !(r[3] === userId && r[4] === id));
+        return data.metrics[kind]!.length < rows.length;
+      });
+    },
+
+    async getMeditationSession(userId) {
+      return (await load()).meditationSessions.find((s) => s[0] === userId) ?? null;
+    },
+
+    async upsertMeditationSession(row) {
+      await update((data) => {
+        const index = data.meditationSessions.findIndex((s) => s[0] === row[0]);
+        if (index === -1) data.meditationSessions.push(row);
+        else data.meditationSessions[index] = row;
+      });
+    },
+
+    async deleteMeditationSession(userId) {
+      return update((data) => {
+        const before = data.meditationSessions.length;
+        data.meditationSessions = data.meditationSessions.filter((s) => s[0] !== userId);
+        return data.meditationSessions.length < before;
+      });
+    },
+
+    async getConversationTurns(userId, limit) {
+      return (await load()).conversations.filter((t) => t[0] === userId).slice(-limit);
+    },
+
+    async appendConversationTurns(userId, rows, keep) {
+      await update((data) => {
+        data.conversations.push(...rows);
+        const own = data.conversations.filter((t) => t[0] === userId);
+        const drop = new Set(own.slice(0, Math.max(0, own.length - keep)));
+        data.conversations = data.conversations.filter((t) => !drop.has(t));
+      });
+    },
+
+    async getRecentEntries(userId, limit) {
+      return (await load()).recentEntries.filter((e) => e[0] === userId).slice(-limit);
+    },
+
+    async appendRecentEntry(row, keep) {
+      await update((data) => {
+        data.recentEntries.push(row);
+        const own = data.recentEntries.filter((e) => e[0] === row[0]);
+        const drop = new Set(own.slice(0, Math.max(0, own.length - keep)));
+        data.recentEntries = data.recentEntries.filter((e) => !drop.has(e));
+      });
+    },
+
+    async claimWebhookEvent(row, expiresBefore) {
+      return update((data) => {
+        data.webhookEvents = data.webhookEvents.filter((e) => e[1] >= expiresBefore);
+        if (data.webhookEvents.some((e) => e[0] === row[0])) return false;
+        data.webhookEvents.push(row);
+        return true;
+      });
+    },
+
+    async releaseWebhookEvent(eventId) {
+      await update((data) => {
+        data.webhookEvents = data.webhookEvents.filter((e) => e[0] !== eventId);
+      });
+    },
+
+    async getUsers() {
+      return (await load()).users.map(normalizeUserRow);
+    },
+
+    async getUser(userId) {
+      const user = (await load()).users.find((u) => u[0] === userId);
+      return user ? normalizeUserRow(user) : null;
+    },
+
+    async upsertUser(row) {
+      await update((data) => {
+        const index = data.users.findIndex((u) => u[0] === row[0]);
+        if (index === -1) data.users.push(row);
+        else data.users[index] = row;
+      });
+    },
+
+    async getProfile(userId) {
+      return (await load()).profiles.find((p) => p[0] === userId) ?? null;
+    },
+
+    async upsertProfile(row) {
+      await update((data) => {
+        const index = data.profiles.findIndex((p) => p[0] === row[0]);
+        if (index === -1) data.profiles.push(row);
+        else data.profiles[index] = row;
+      });
+    },
+  };
+}
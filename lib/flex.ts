@@ -0,0 +1,213 @@
+// lib/flex.ts
+import type { messagingApi } from "@line/bot-sdk";
+import { NUTRIENTS, type Nutrients, type NutritionEstimate } from "@/lib/nutrition";
+import { percentOf, type DailyTargets } from "@/lib/targets";
+
+type FlexComponent = messagingApi.FlexComponent;
+
+/* ==================================================
+   Flex Message の部品
+================================================== */
+
+const COLOR = {
+  accent: "#06C755", // LINE のグリーン
+  warn: "#F5A623",
+  over: "#E5484D",
+  track: "#E5E7EB",
+  sub: "#8C8C8C",
+  feedback: "#F0FAF3",
+};
+
+// カードに並べる品目の上限（超えた分は「ほか N 品」にまとめる）
+const MAX_CARD_ITEMS = 10;
+
+function text(value: string, options: Partial<messagingApi.FlexText> = {}): messagingApi.FlexText {
+  return { type: "text", text: value || " ", size: "sm", wrap: true, ...options };
+}
+
+function box(
+  layout: messagingApi.FlexBox["layout"],
+  contents: FlexComponent[],
+  options: Partial<messagingApi.FlexBox> = {}
+): messagingApi.FlexBox {
+  return { type: "box", layout, contents, ...options };
+}
+
+function separator(): messagingApi.FlexSeparator {
+  return { type: "separator", margin: "md" };
+}
+
+/** 左にラベル、右に値の1行 */
+function row(label: string, value: string, options: Partial<messagingApi.FlexText> = {}): messagingApi.FlexBox {
+  return box("horizontal", [
+    text(label, { flex: 3, color: COLOR.sub }),
+    text(value, { flex: 4, align: "end", ...options }),
+  ]);
+}
+
+/** 目標に対する割合のバー（100% で満タン。上限超えは赤、不足気味は橙） */
+function progressBar(percent: number, over: boolean): messagingApi.FlexBox {
+  const color = over ? COLOR.over : percent < 70 ? COLOR.warn : COLOR.accent;
+  const width = Math.max(1, Math.min(100, percent));
+  return box("vertical", [box("vertical", [], { width: `${width}%`, height: "6px", backgroundColor: color })], {
+    height: "6px",
+    backgroundColor: COLOR.track,
+    cornerRadius: "3px",
+    margin: "xs",
+  });
+}
+
+/** 栄養素1つ分（ラベル・量・目標比のバー） */
+function nutrientBar(
+  label: string,
+  amount: string,
+  percent: number,
+  over: boolean,
+  note: string
+): messagingApi.FlexBox {
+  return box(
+    "vertical",
+    [
+      box("horizontal", [
+        text(label, { flex: 3, size: "xs", color: COLOR.sub }),
+        text(amount, { flex: 3, size: "xs", align: "end" }),
+        text(`${note}${percent}%${over ? " ⚠️" : ""}`, { flex: 3, size: "xs", align: "end", color: COLOR.sub }),
+      ]),
+      progressBar(percent, over),
+    ],
+    { margin: "md" }
+  );
+}
+
+function header(title: string, subtitle: string): messagingApi.FlexBox {
+  return box("vertical", [
+    text(title, { size: "md", weight: "bold" }),
+    text(subtitle, { size: "xs", color: COLOR.sub }),
+  ]);
+}
+
+function feedbackSection(title: string, body: string): messagingApi.FlexBox {
+  return box("vertical", [text(title, { weight: "bold", size: "xs" }), text(body, { size: "xs", margin: "sm" })], {
+    backgroundColor: COLOR.feedback,
+    cornerRadius: "8px",
+    paddingAll: "12px",
+    margin: "lg",
+  });
+}
+
+function bubble(head: messagingApi.FlexBox, body: FlexComponent[]): messagingApi.FlexBubble {
+  return { type: "bubble", size: "mega", header: head, body: box("vertical", body, { spacing: "sm" }) };
+}
+
+/* ==================================================
+   食事の記録カード
+================================================== */
+
+export type MealCardInput = {
+  title: string;
+  mealDate: string;
+  mealType: string;
+  estimate: NutritionEstimate;
+  today: Nutrients | null; // MealDate の累計（プロフィールが無ければ null）
+  targets: DailyTargets | null;
+  note?: string; // カードの最後に添える一言
+};
+
+export function mealCard(input: MealCardInput): messagingApi.FlexBubble {
+  const { title, mealDate, mealType, estimate, today, targets, note } = input;
+  const items = estimate.items.slice(0, MAX_CARD_ITEMS).map((item) =>
+    row(`${item.name}${item.portion ? `（${item.portion}）` : ""}`, `${item.kcal} kcal`)
+  );
+  const rest = estimate.items.length - MAX_CARD_ITEMS;
+  if (rest > 0) items.push(row(`ほか ${rest} 品`, ""));
+
+  const nutrients: FlexComponent[] = NUTRIENTS.map(({ key, label, unit }) => {
+    const amount = `${estimate.total[key]} ${unit}`;
+    if (!targets || !today) return row(label, amount);
+    const t = targets[key];
+    const over = t.upper !== undefined && today[key] > t.upper;
+    return nutrientBar(label, amount, percentOf(today[key], t), over, "今日 ");
+  });
+
+  const body: FlexComponent[] = [
+    ...items,
+    separator(),
+    text(targets ? "栄養素（バーは今日の累計の目標比）" : "栄養素", { size: "xs", color: COLOR.sub, margin: "md" }),
+    ...nutrients,
+  ];
+  if (note) body.push(separator(), text(note, { size: "xs", color: COLOR.sub, margin: "md" }));
+  return bubble(header(title, `${mealDate} ${mealType || "食事"}`), body);
+}
+
+/* ==================================================
+   期間のサマリーカード
+================================================== */
+
+export type MealSummaryCardInput = {
+  start: string;
+  end: string;
+  days: number;
+  loggedDays: number;
+  totals: Nutrients;
+  targets: DailyTargets | null;
+  notes: string[]; // 不足・過剰の警告やエネルギー収支
+  feedback: string;
+};
+
+export function mealSummaryCard(s: MealSummaryCardInput): messagingApi.FlexBubble {
+  const nutrients: FlexComponent[] = NUTRIENTS.map(({ key, label, unit }) => {
+    const average = Math.round((s.totals[key] / s.days) * 10) / 10;
+    const amount = `${average} ${unit}/日`;
+    if (!s.targets) return row(label, amount);
+    const t = s.targets[key];
+    const loggedAverage = s.totals[key] / s.loggedDays;
+    const over = t.upper !== undefined && loggedAverage > t.upper;
+    return nutrientBar(label, amount, percentOf(loggedAverage, t), over, "");
+  });
+
+  const body: FlexComponent[] = [
+    row("記録した日", `${s.loggedDays} / ${s.days} 日`),
+    row("合計カロリー", `${Math.round(s.totals.kcal)} kcal`, { weight: "bold" }),
+    separator(),
+    text(s.targets ? `1日平均（バーは記録のある ${s.loggedDays} 日の目標比）` : "1日平均", {
+      size: "xs",
+      color: COLOR.sub,
+      margin: "md",
+    }),
+    ...nutrients,
+  ];
+  if (s.notes.length > 0) {
+    body.push(separator(), ...s.notes.map((note) => text(note, { size: "xs", margin: "md" })));
+  }
+  if (s.feedback) body.push(feedbackSection("💡 フィードバック", s.feedback));
+  return bubble(header("🍽️ 食事のサマリー", `${s.start} 〜 ${s.end}`), body);
+}
+
+/**
+ * テキストのサマリーをそのままカードにする（運動・瞑想・ジャーナル・指標用）。
+ * 1行目を見出しに、「ラベル: 値」の行は左右に分けて並べ、💡 で始まる段落はフィードバック欄にする
+ */
+export function textSummaryCard(summary: string): messagingApi.FlexBubble {
+  const [first, ...rest] = summary.split("\n");
+  const range = first.match(/^(\S+ 〜 \S+) の(.+)$/);
+  const head = range ? header(range[2], range[1]) : header(first, "");
+
+  const body: FlexComponent[] = [];
+  rest
+    .join("\n")
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .forEach((paragraph, i) => {
+      if (paragraph.startsWith("💡")) {
+        const [title, ...lines] = paragraph.split("\n");
+        body.push(feedbackSection(title.replace(/[:：]$/, ""), lines.join("\n")));
+        return;
+      }
+      if (i > 0) body.push(separator());
+      for (const line of paragraph.split("\n")) {
+        const pair = line.match(/^([^:：]{1,16})[:：]\s*(.+)$/);
+        body.push(pair ? row(pair[1], pair[2]) : text(line));
+      }
+    });
+  return bubble(head, body.length > 0 ? body : [text(first)]);
+}
@@ -0,0 +1,480 @@
+// lib/healthImport.ts
+import type { LogStore, MetricKind, MetricValue } from "@/lib/logStore";
+import { toLocalDate, toLocalTime } from "@/lib/dates";
+import { DEFAULT_WEIGHT_KG, estimateBurnKcal } from "@/lib/exercise";
+import { getMetric } from "@/lib/metrics";
+import { importRecords, parseCsv, type ImportReport, type TransferKind } from "@/lib/transfer";
+
+/* ==================================================
+   Apple Health / Google Fit のエクスポートの取り込み
+   ・ワークアウト → 運動ログ
+   ・マインドフルネス → 瞑想ログ
+   ・歩数・体重・体脂肪率・ウエスト・水分・睡眠 → 各指標ログ
+   重複判定は lib/transfer.ts の importRecords に任せる（記録IDを元データから決まる値にして、
+   同じファイルを何度取り込んでも二重にならないようにする）
+================================================== */
+
+/** ====== 型定義 ====== */
+
+export type HealthSource = "apple" | "googleFit";
+
+const SOURCE_LABEL: Record<HealthSource, string> = { apple: "Apple Health", googleFit: "Google Fit" };
+
+export type HealthWorkout = {
+  activity: string; // 運動ログの種目名（lib/exercise.ts の ACTIVITIES に合わせる）
+  start: Date;
+  end: Date;
+  durationMin: number;
+  distanceKm: number | null;
+  kcal: number | null;
+};
+
+// 種類ごとの行（列の並びは lib/transfer.ts の columnsOf と同じ）
+export type HealthBatches = Partial<Record<TransferKind, unknown[][]>>;
+
+// 一晩の睡眠とみなす区間の間隔の上限（これより空いたら別の睡眠）
+const SLEEP_GAP_MS = 3 * 60 * 60 * 1000;
+// これより短い睡眠は昼寝とみなして取り込まない
+const MIN_SLEEP_MS = 60 * 60 * 1000;
+
+/* ==================================================
+   集め役（パーサーから1件ずつ渡され、最後に日ごとにまとめて行にする）
+================================================== */
+
+export type HealthCollector = ReturnType<typeof createHealthCollector>;
+
+/** since (YYYY-MM-DD) より前の記録は捨てる。weightKg は消費カロリーが無いワークアウトの推定に使う */
+export function createHealthCollector(source: HealthSource, { since = "", weightKg = DEFAULT_WEIGHT_KG } = {}) {
+  const label = SOURCE_LABEL[source];
+  const prefix = source === "apple" ? "apple" : "gfit";
+  const rows: HealthBatches = {};
+  // 歩数は iPhone と Apple Watch の両方から届くので、日ごと・記録元ごとに合計して最大の記録元を使う
+  const stepsByDay = new Map<string, Map<string, number>>();
+  const waterByDay = new Map<string, number>();
+  const sleepSegments: { start: number; end: number }[] = [];
+  // 日付や値が読めずに捨てた記録の数（取り込まない種類の記録は数えない）
+  let skipped = 0;
+
+  function push(kind: TransferKind, row: unknown[]) {
+    if (String(row[0]) < since) return;
+    (rows[kind] ??= []).push(row);
+  }
+
+  function metricRow(
+    kind: MetricKind,
+    at: { date: string; time: string },
+    text: string,
+    id: string,
+    values: Record<string, MetricValue>
+  ) {
+    return [at.date, at.time, text, "", id, ...getMetric(kind).fields.map((f) => values[f.key] ?? null)];
+  }
+
+  function localAt(at: Date) {
+    return { date: toLocalDate(at), time: toLocalTime(at) };
+  }
+
+  function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+  }
+
+  return {
+    addWorkout(w: HealthWorkout) {
+      const durationMin = Math.round(w.durationMin);
+      const distanceKm = w.distanceKm !== null ? Math.round(w.distanceKm * 100) / 100 : null;
+      const details = {
+        activity: w.activity,
+        durationMin,
+        distanceKm,
+        sets: null,
+        reps: null,
+        weightKg: null,
+        intensity: "moderate" as const,
+      };
+      // 記録元によっては消費カロリーが 0 で入っているので、そのときも推定する
+      const kcal = w.kcal ? Math.round(w.kcal) : estimateBurnKcal(details, weightKg);
+      const text = `${w.activity} ${durationMin}分${distanceKm !== null ? ` ${distanceKm}km` : ""}（${label}）`;
+      push("exercise", [
+        toLocalDate(w.start),
+        toLocalTime(w.start),
+        text,
+        "",
+        `${prefix}-workout-${w.start.getTime()}`,
+        w.activity,
+        durationMin,
+        distanceKm,
+        null,
+        null,
+        null,
+        "moderate",
+        kcal,
+      ]);
+    },
+
+    addMindful(start: Date, end: Date) {
+      const minutes = Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000));
+      push("meditation", [
+        toLocalDate(start),
+        toLocalTime(start),
+        `マインドフルネス ${minutes}分（${label}）`,
+        "",
+        `${prefix}-mindful-${start.getTime()}`,
+        "マインドフルネス",
+        minutes,
+        start.toISOString(),
+        end.toISOString(),
+      ]);
+    },
+
+    addSteps(date: string, steps: number, device = "") {
+      const byDevice = stepsByDay.get(date) ?? new Map<string, number>();
+      byDevice.set(device, (byDevice.get(device) ?? 0) + steps);
+      stepsByDay.set(date, byDevice);
+    },
+
+    addWater(date: string, ml: number) {
+      waterByDay.set(date, (waterByDay.get(date) ?? 0) + ml);
+    },
+
+    addWeight(at: Date, values: { weight?: number; bodyFat?: number }) {
+      const parts = [
+        values.weight !== undefined ? `体重 ${round1(values.weight)}kg` : "",
+        values.bodyFat !== undefined ? `体脂肪 ${round1(values.bodyFat)}%` : "",
+      ].filter(Boolean);
+      const id = `${prefix}-${values.weight !== undefined ? "weight" : "bodyfat"}-${at.getTime()}`;
+      push(
+        "weight",
+        metricRow("weight", localAt(at), `${parts.join(" ")}（${label}）`, id, {
+          weight: values.weight !== undefined ? round1(values.weight) : null,
+          bodyFat: values.bodyFat !== undefined ? round1(values.bodyFat) : null,
+        })
+      );
+    },
+
+    addWaist(at: Date, cm: number) {
+      push(
+        "body",
+        metricRow("body", localAt(at), `ウエスト ${round1(cm)}cm（${label}）`, `${prefix}-waist-${at.getTime()}`, {
+          waist: round1(cm),
+        })
+      );
+    },
+
+    addSleep(start: Date, end: Date) {
+      if (end > start) sleepSegments.push({ start: start.getTime(), end: end.getTime() });
+    },
+
+    skip() {
+      skipped++;
+    },
+
+    /** 日ごとの合計や一晩ごとの睡眠をまとめて、種類ごとの行を返す */
+    finish(): { batches: HealthBatches; skipped: number } {
+      for (const [date, byDevice] of stepsByDay) {
+        const steps = Math.round(Math.max(...byDevice.values()));
+        const at = { date, time: "23:59" };
+        push("steps", metricRow("steps", at, `${steps}歩（${label}）`, `${prefix}-steps-${date}`, { steps }));
+      }
+      for (const [date, ml] of waterByDay) {
+        const amount = Math.round(ml);
+        const at = { date, time: "23:59" };
+        push("water", metricRow("water", at, `水分 ${amount}ml（${label}）`, `${prefix}-water-${date}`, { amount }));
+      }
+
+      // 重なった区間（複数の記録元）をつなげてから、間隔の短いものを一晩にまとめる
+      const merged: { start: number; end: number; asleep: number }[] = [];
+      for (const seg of [...sleepSegments].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && seg.start <= last.end) {
+          if (seg.end > last.end) {
+            last.asleep += seg.end - last.end;
+            last.end = seg.end;
+          }
+        } else if (last && seg.start - last.end < SLEEP_GAP_MS) {
+          last.asleep += seg.end - seg.start;
+          last.end = seg.end;
+        } else {
+          merged.push({ ...seg, asleep: seg.end - seg.start });
+        }
+      }
+      for (const night of merged) {
+        if (night.asleep < MIN_SLEEP_MS) continue;
+        const bed = new Date(night.start);
+        const wake = new Date(night.end);
+        const hours = round1(night.asleep / 3600000);
+        push(
+          "sleep",
+          metricRow(
+            "sleep",
+            localAt(wake),
+            `${toLocalTime(bed)}〜${toLocalTime(wake)} 睡眠${hours}時間（${label}）`,
+            `${prefix}-sleep-${night.start}`,
+            { bedtime: toLocalTime(bed), wake: toLocalTime(wake), hours }
+          )
+        );
+      }
+      return { batches: rows, skipped };
+    },
+  };
+}
+
+/* ==================================================
+   単位の換算
+================================================== */
+
+function toKm(value: number, unit: string): number {
+  if (unit === "m") return value / 1000;
+  if (unit === "mi") return value * 1.609344;
+  if (unit === "yd") return value * 0.0009144;
+  return value;
+}
+
+function toKg(value: number, unit: string): number {
+  if (unit === "lb") return value * 0.45359237;
+  if (unit === "g") return value / 1000;
+  return value;
+}
+
+function toKcal(value: number, unit: string): number {
+  return unit === "kJ" ? value / 4.184 : value;
+}
+
+function toCm(value: number, unit: string): number {
+  if (unit === "in") return value * 2.54;
+  if (unit === "m") return value * 100;
+  return value;
+}
+
+function toMl(value: number, unit: string): number {
+  if (unit === "L") return value * 1000;
+  if (unit === "fl_oz_us") return value * 29.5735;
+  return value;
+}
+
+/* ==================================================
+   Apple Health（ヘルスケア > 書き出し の export.xml）
+================================================== */
+
+const APPLE_ACTIVITIES: [RegExp, string][] = [
+  [/Running/, "ランニング"],
+  [/Walking|Hiking/, "ウォーキング"],
+  [/Cycling/, "サイクリング"],
+  [/Swimming/, "水泳"],
+  [/StrengthTraining|CoreTraining/, "筋トレ"],
+  [/Yoga|Pilates|Flexibility|MindAndBody/, "ヨガ"],
+];
+
+const APPLE_ASLEEP = /^HKCategoryValueSleepAnalysisAsleep/;
+
+/** "2024-01-01 08:00:00 +0900" → Date */
+function parseAppleDate(value: string): Date {
+  const m = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return new Date(m ? `${m[1]}T${m[2]}${m[3]}:${m[4]}` : value);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of text.matchAll(/(\w+)="([^"]*)"/g)) attrs[m[1]] = decodeXml(m[2]);
+  return attrs;
+}
+
+type PendingWorkout = { attrs: Record<string, string>; distanceKm: number | null; kcal: number | null };
+
+function finishAppleWorkout(collector: HealthCollector, { attrs, distanceKm, kcal }: PendingWorkout) {
+  const start = parseAppleDate(attrs.startDate ?? "");
+  const end = parseAppleDate(attrs.endDate ?? "");
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return collector.skip();
+  const type = attrs.workoutActivityType ?? "";
+  let durationMin = Number(attrs.duration);
+  if (attrs.durationUnit === "s") durationMin /= 60;
+  if (attrs.durationUnit === "hr") durationMin *= 60;
+  if (!Number.isFinite(durationMin) || durationMin <= 0) durationMin = (end.getTime() - start.getTime()) / 60000;
+
+  collector.addWorkout({
+    activity: APPLE_ACTIVITIES.find(([re]) => re.test(type))?.[1] ?? "運動",
+    start,
+    end,
+    durationMin,
+    // 古い書き出しは属性、新しい書き出しは子要素の WorkoutStatistics に入っている
+    distanceKm: attrs.totalDistance ? toKm(Number(attrs.totalDistance), attrs.totalDistanceUnit) : distanceKm,
+    kcal: attrs.totalEnergyBurned ? toKcal(Number(attrs.totalEnergyBurned), attrs.totalEnergyBurnedUnit) : kcal,
+  });
+}
+
+function handleAppleRecord(collector: HealthCollector, attrs: Record<string, string>) {
+  const value = Number(attrs.value);
+  const start = parseAppleDate(attrs.startDate ?? "");
+  const end = parseAppleDate(attrs.endDate ?? "");
+  // 睡眠・マインドフルネスの value は数値ではなく種別の名前
+  const quantity = attrs.type.startsWith("HKQuantityTypeIdentifier");
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || (quantity && !Number.isFinite(value))) {
+    return collector.skip();
+  }
+
+  switch (attrs.type) {
+    case "HKQuantityTypeIdentifierStepCount":
+      collector.addSteps(toLocalDate(end), value, attrs.sourceName);
+      break;
+    case "HKQuantityTypeIdentifierBodyMass":
+      collector.addWeight(end, { weight: toKg(value, attrs.unit) });
+      break;
+    case "HKQuantityTypeIdentifierBodyFatPercentage":
+      // 0.2 のような割合で入っている
+      collector.addWeight(end, { bodyFat: attrs.unit === "%" && value <= 1 ? value * 100 : value });
+      break;
+    case "HKQuantityTypeIdentifierWaistCircumference":
+      collector.addWaist(end, toCm(value, attrs.unit));
+      break;
+    case "HKQuantityTypeIdentifierDietaryWater":
+      collector.addWater(toLocalDate(end), toMl(value, attrs.unit));
+      break;
+    case "HKCategoryTypeIdentifierSleepAnalysis":
+      // 「ベッドにいた時間」「覚醒」は睡眠時間に含めない
+      if (APPLE_ASLEEP.test(attrs.value)) collector.addSleep(start, end);
+      break;
+    case "HKCategoryTypeIdentifierMindfulSession":
+      collector.addMindful(start, end);
+      break;
+  }
+}
+
+// 取り込む Record の種類（それ以外は属性を解釈せずに飛ばす。心拍数などは数百万件あるので skipped にも数えない）
+const APPLE_RECORD_TYPES = /type="HK(?:QuantityTypeIdentifier(?:StepCount|BodyMass|BodyFatPercentage|WaistCircumference|DietaryWater)|CategoryTypeIdentifier(?:SleepAnalysis|MindfulSession))"/;
+
+const APPLE_TAG = /<(Record|Workout|WorkoutStatistics)\s([^>]*?)(\/?)>|<\/Workout>/g;
+
+/**
+ * ====== export.xml を少しずつ読みながら解釈する ======
+ * 書き出しは数百 MB になることがあるので、全体を文字列として持たずに読み進める。
+ */
+export async function parseAppleHealthXml(chunks: AsyncIterable<string>, collector: HealthCollector): Promise<void> {
+  let buffer = "";
+  let workout: PendingWorkout | null = null;
+
+  const consume = (text: string) => {
+    for (const m of text.matchAll(APPLE_TAG)) {
+      if (m[0] === "</Workout>") {
+        if (workout) finishAppleWorkout(collector, workout);
+        workout = null;
+        continue;
+      }
+      if (m[1] === "Record" && !APPLE_RECORD_TYPES.test(m[2])) continue;
+      const attrs = parseAttributes(m[2]);
+      if (m[1] === "Record") {
+        handleAppleRecord(collector, attrs);
+      } else if (m[1] === "Workout") {
+        const pending = { attrs, distanceKm: null, kcal: null };
+        if (m[3]) finishAppleWorkout(collector, pending);
+        else workout = pending;
+      } else if (workout && attrs.sum) {
+        const sum = Number(attrs.sum);
+        if (/^HKQuantityTypeIdentifierDistance/.test(attrs.type)) workout.distanceKm = toKm(sum, attrs.unit);
+        if (attrs.type === "HKQuantityTypeIdentifierActiveEnergyBurned") workout.kcal = toKcal(sum, attrs.unit);
+      }
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    // 途中で切れたタグは次のチャンクと合わせてから読む（属性値に "<" は入らない）
+    const cut = buffer.lastIndexOf("<");
+    const complete = cut === -1 || buffer.indexOf(">", cut) !== -1 ? buffer.length : cut;
+    consume(buffer.slice(0, complete));
+    buffer = buffer.slice(complete);
+  }
+  consume(buffer);
+}
+
+/* ==================================================
+   Google Fit（Google Takeout の Fit フォルダ）
+================================================== */
+
+const GOOGLE_ACTIVITIES: [RegExp, string][] = [
+  [/^running/, "ランニング"],
+  [/^walking|^hiking/, "ウォーキング"],
+  [/^biking/, "サイクリング"],
+  [/^swimming/, "水泳"],
+  [/strength_training|weightlifting|crossfit|calisthenics/, "筋トレ"],
+  [/^yoga|^pilates/, "ヨガ"],
+];
+
+/** 「Daily activity metrics/Daily activity metrics.csv」（1日1行の歩数・体重） */
+export function parseGoogleFitDailyCsv(text: string, collector: HealthCollector): void {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return;
+  const col = (re: RegExp) => header.findIndex((h) => re.test(h.trim()));
+  const dateCol = col(/^Date$/);
+  const stepsCol = col(/^Step count$/);
+  const weightCol = col(/^Average weight \(kg\)$/);
+  if (dateCol === -1) return;
+
+  for (const row of rows) {
+    const date = row[dateCol];
+    const steps = stepsCol === -1 ? NaN : parseFloat(row[stepsCol]);
+    const weight = weightCol === -1 ? NaN : parseFloat(row[weightCol]);
+    if (Number.isFinite(steps) && steps > 0) collector.addSteps(date, steps);
+    // 日付しか無いので UTC の正午として扱う（時差が ±11 時間以内なら日付は変わらない）
+    if (Number.isFinite(weight) && weight > 0) collector.addWeight(new Date(`${date}T12:00:00Z`), { weight });
+  }
+}
+
+/** 「All Sessions/*.json」（ワークアウト・睡眠・瞑想のセッション1件ずつ） */
+export function parseGoogleFitSession(json: unknown, collector: HealthCollector): void {
+  const session = json as {
+    fitnessActivity?: string;
+    startTime?: string;
+    endTime?: string;
+    aggregate?: { metricName?: string; floatValue?: number; intValue?: number }[];
+  };
+  const activity = session?.fitnessActivity ?? "";
+  const start = new Date(session?.startTime ?? "");
+  const end = new Date(session?.endTime ?? "");
+  if (!activity || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    collector.skip();
+    return;
+  }
+
+  if (activity.startsWith("sleep")) return collector.addSleep(start, end);
+  if (activity === "meditation") return collector.addMindful(start, end);
+
+  const metric = (name: string) => {
+    const a = session.aggregate?.find((m) => m.metricName === name);
+    return a ? (a.floatValue ?? a.intValue ?? null) : null;
+  };
+  const meters = metric("com.google.distance.delta");
+  collector.addWorkout({
+    activity: GOOGLE_ACTIVITIES.find(([re]) => re.test(activity))?.[1] ?? "運動",
+    start,
+    end,
+    durationMin: (end.getTime() - start.getTime()) / 60000,
+    distanceKm: meters !== null ? meters / 1000 : null,
+    kcal: metric("com.google.calories.expended"),
+  });
+}
+
+/* ==================================================
+   取り込み
+================================================== */
+
+/** 集めた行を種類ごとに重複を除いて追加する */
+export async function importHealthBatches(
+  store: LogStore,
+  userId: string,
+  batches: HealthBatches,
+  { dryRun = false } = {}
+): Promise<ImportReport[]> {
+  const reports: ImportReport[] = [];
+  for (const [kind, rows] of Object.entries(batches) as [TransferKind, unknown[][]][]) {
+    reports.push(await importRecords(store, userId, kind, rows, { dryRun }));
+  }
+  return reports;
+}
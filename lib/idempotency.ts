@@ -0,0 +1,55 @@
+// lib/idempotency.ts
+import type { WebhookEvent } from "@line/bot-sdk";
+import type { LogStore } from "@/lib/logStore";
+import { newEntryId } from "@/lib/entries";
+
+/* ==================================================
+   Webhook の再送対策
+   LINE は応答が遅いときや失敗したときに同じイベントを再送する（deliveryContext.isRedelivery）。
+   webhookEventId を処理済みとして残して2回目以降は処理せず、
+   それでも同時に届いた場合に備えて記録IDもイベントから決める（同じ記録IDの行は追加されない）
+================================================== */
+
+// 再送は時間をおいて届くことがあるので、処理済みの記録は3日間残す
+export const WEBHOOK_EVENT_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+/** 初めて届いたイベントなら処理済みとして記録して true。保存先のエラーでは処理を止めない */
+export async function claimWebhookEvent(store: LogStore, event: WebhookEvent, now: Date): Promise<boolean> {
+  if (!event.webhookEventId) return true;
+  try {
+    const claimed = await store.claimWebhookEvent(
+      [event.webhookEventId, now.toISOString(), event.source?.userId ?? "", newEntryId()],
+      new Date(now.getTime() - WEBHOOK_EVENT_TTL_MS).toISOString()
+    );
+    if (!claimed) {
+      console.log("[LINE][DUPLICATE]", event.webhookEventId, event.deliveryContext?.isRedelivery ? "redelivery" : "");
+    }
+    return claimed;
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][DEDUP][ERR]", e.message);
+    } else {
+      console.error("[LINE][DEDUP][ERR]", e);
+    }
+    return true;
+  }
+}
+
+/** 処理に失敗したイベントを、再送されたときにもう一度処理できるように戻す */
+export async function releaseWebhookEvent(store: LogStore, event: WebhookEvent): Promise<void> {
+  if (!event.webhookEventId) return;
+  try {
+    await store.releaseWebhookEvent(event.webhookEventId);
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][DEDUP][ERR]", e.message);
+    } else {
+      console.error("[LINE][DEDUP][ERR]", e);
+    }
+  }
+}
+
+/** イベントから作る記録の ID（index は1つのメッセージに含まれる用件の順番）。再処理しても同じ ID になる */
+export function eventEntryId(event: WebhookEvent, index = 0): string | undefined {
+  return event.webhookEventId ? newEntryId(`${event.webhookEventId}:${index}`) : undefined;
+}
@@ -0,0 +1,147 @@
+// lib/intents.ts
+import { callOpenAIWithRetry } from "@/lib/openai";
+import type { DateRange, MetricKind, SimpleLogKind } from "@/lib/logStore";
+import { parseDateRange, toLocalDate, weekdayOf } from "@/lib/dates";
+import { detectMealType } from "@/lib/meals";
+import { isSummaryCategory, type SummaryCategory } from "@/lib/summaries";
+import { detectMetricKind, isMetricKind, METRICS } from "@/lib/metrics";
+
+/** ====== 型定義 ====== */
+
+// 1つのメッセージから取り出した「やりたいこと」。1メッセージに複数含まれることがある
+export type Intent =
+  | { type: "meal"; text: string; mealType: string | null; date: string | null }
+  | { type: SimpleLogKind; text: string }
+  | { type: "metric"; kind: MetricKind; text: string }
+  | { type: "summary"; category: SummaryCategory; range: DateRange }
+  | { type: "settings"; text: string }
+  | { type: "chat"; text: string };
+
+const MEAL_TYPES = ["朝食", "昼食", "夕食", "間食"];
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+/* ==================================================
+   キーワードによる判定（モデルが使えないときのフォールバック）
+================================================== */
+
+/**
+ * 体重・睡眠などの指標と運動・瞑想のキーワードを食事より先に見る（「朝に走った」を朝食にしないため）。
+ * 水分だけは紛れやすいので運動・食事より後に見る（「水曜にランニング」「朝食に水500ml」）。
+ * 「昼寝」は昼食ではないので食事の判定から外す。
+ */
+export function detectLogCategory(userText: string): SummaryCategory | null {
+  const metric = detectMetricKind(userText);
+  if (metric && metric !== "water") return metric;
+  const text = userText.toLowerCase();
+  if (/運動|走|ランニング|ジョギング|筋トレ|workout|run/.test(text)) return "exercise";
+  if (text.includes("瞑想") || text.includes("meditation") || text.includes("座禅")) return "meditation";
+  if (detectMealType(userText.replace(/昼寝/g, "")) || text.includes("食事")) return "meal";
+  if (metric) return metric;
+  if (text.includes("日記") || text.includes("ジャーナル") || text.includes("思った") || text.includes("感じた"))
+    return "journal";
+  return null;
+}
+
+export function classifyByKeywords(userText: string, now: Date): Intent[] {
+  const category = detectLogCategory(userText);
+  const range = parseDateRange(userText, now);
+  if (range && category) return [{ type: "summary", category, range }];
+  if (category === "meal") return [{ type: "meal", text: userText, mealType: null, date: null }];
+  if (isMetricKind(category)) return [{ type: "metric", kind: category, text: userText }];
+  if (category) return [{ type: category, text: userText }];
+  return [{ type: "chat", text: userText }];
+}
+
+/* ==================================================
+   モデルによる判定
+================================================== */
+
+function systemPrompt(now: Date): string {
+  const today = toLocalDate(now);
+  return (
+    "あなたは健康記録アプリのメッセージ分類器です。ユーザーのメッセージを、含まれている用件ごとに分けて分類してください。\n" +
+    "1つのメッセージに複数の用件があれば、それぞれ別の要素にしてください（例: 「今日はサラダとランニング」→ meal と exercise）。\n" +
+    "type は次のいずれか:\n" +
+    "- meal: 食べた・飲んだものの記録。text には食べたものだけを入れる（水やお茶の量だけなら water）\n" +
+    "- exercise: 運動の記録（ランニング・筋トレ・散歩など）\n" +
+    "- meditation: 瞑想・マインドフルネスの記録\n" +
+    "- journal: 日記・気分・考えたことの記録（昼寝の話もここ）\n" +
+    METRICS.map((m) => `- ${m.kind}: ${m.description}\n`).join("") +
+    `- summary: 過去の記録のまとめの依頼。category に meal/exercise/meditation/journal/${METRICS.map((m) => m.kind).join("/")}、` +
+    "period に期間の表現（例: 今週、先月、過去7日）\n" +
+    "- settings: リマインダー・プロフィール・記録の修正などの設定操作\n" +
+    "- chat: 上記以外の相談・雑談・質問\n" +
+    `今日は ${today}（${WEEKDAY_LABELS[weekdayOf(today)]}曜日）です。\n` +
+    "meal の mealType は 朝食/昼食/夕食/間食 のいずれか、分からなければ null。「朝に走った」のような時間帯だけの表現で食事にしないこと。\n" +
+    "meal の date は食べた日（YYYY-MM-DD）。日付の表現が無ければ null。\n" +
+    "次の形式の JSON のみを出力してください。\n" +
+    '{"intents":[{"type":"meal","text":"サラダ","mealType":null,"date":null},{"type":"exercise","text":"ランニング"}]}'
+  );
+}
+
+/** ====== モデル出力の検証（不正な要素は捨て、1つも残らなければ null） ====== */
+function validateIntents(raw: unknown, userText: string, now: Date): Intent[] | null {
+  const rawIntents = (raw as { intents?: unknown })?.intents;
+  if (!Array.isArray(rawIntents)) return null;
+
+  const intents: Intent[] = [];
+  for (const item of rawIntents as Record<string, unknown>[]) {
+    const type = item?.type;
+    const text = typeof item?.text === "string" && item.text.trim() ? item.text.trim() : userText;
+
+    if (type === "meal") {
+      const mealType = typeof item.mealType === "string" && MEAL_TYPES.includes(item.mealType) ? item.mealType : null;
+      const date = typeof item.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(item.date) ? item.date : null;
+      intents.push({ type, text, mealType, date });
+    } else if (type === "exercise" || type === "meditation" || type === "journal") {
+      intents.push({ type, text });
+    } else if (isMetricKind(type)) {
+      intents.push({ type: "metric", kind: type, text });
+    } else if (type === "summary") {
+      const category = item.category;
+      if (!isSummaryCategory(category)) continue;
+      // 期間はモデルに計算させず、取り出した表現を既存のパーサーで解釈する
+      const period = typeof item.period === "string" ? item.period : "";
+      const range = parseDateRange(period, now) ?? parseDateRange(userText, now);
+      if (!range) continue;
+      intents.push({ type, category, range });
+    } else if (type === "settings" || type === "chat") {
+      intents.push({ type, text });
+    }
+  }
+  return intents.length > 0 ? intents : null;
+}
+
+/** ====== メッセージを用件に分類（モデルが使えない・出力が不正ならキーワード判定） ====== */
+export async function classifyIntents(userText: string, now: Date): Promise<Intent[]> {
+  try {
+    const res = await callOpenAIWithRetry(
+      [
+        { role: "system", content: systemPrompt(now) },
+        { role: "user", content: userText },
+      ],
+      { maxRetries: 1, max_tokens: 400, temperature: 0, json: true }
+    );
+    const content = res.choices?.[0]?.message?.content ?? "";
+    const intents = validateIntents(JSON.parse(content), userText, now);
+    if (intents) return intents;
+    console.warn("[INTENT][INVALID]", content.slice(0, 200));
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[INTENT][ERR]", e.message);
+    } else {
+      console.error("[INTENT][ERR]", e);
+    }
+  }
+  console.log("[INTENT][FALLBACK] keyword rules");
+  return classifyByKeywords(userText, now);
+}
+
+/** ====== 分類器の差し替え口 ====== */
+export interface IntentClassifier {
+  classify(userText: string, now: Date): Promise<Intent[]>;
+}
+
+export const openAIIntentClassifier: IntentClassifier = {
+  classify: (userText, now) => classifyIntents(userText, now),
+};
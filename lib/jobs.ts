@@ -0,0 +1,70 @@
+// lib/jobs.ts
+import { after } from "next/server";
+
+/* ==================================================
+   バックグラウンドジョブ
+   Webhook はすぐに 200 を返し、OpenAI の呼び出しなど時間のかかる処理は応答のあとに実行する。
+   失敗したジョブは間隔をあけてやり直し、それでも失敗したら onFailure で知らせる
+================================================== */
+
+export type Job = {
+  name: string;
+  run: () => Promise<void>;
+  /** 最後の試行も失敗したときに呼ばれる（ユーザーへの通知など） */
+  onFailure?: (e: unknown) => Promise<void>;
+};
+
+export interface JobQueue {
+  enqueue(job: Job): void;
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000; // 2回目は2秒後、3回目はさらに4秒後
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** ジョブを実行し、失敗したらやり直す。最終的に成功したら true */
+export async function runJob(
+  job: Job,
+  { maxAttempts = MAX_ATTEMPTS, retryDelayMs = RETRY_DELAY_MS }: { maxAttempts?: number; retryDelayMs?: number } = {}
+): Promise<boolean> {
+  let lastError: unknown;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await job.run();
+      if (attempt > 1) console.log("[JOB][RETRY][OK]", job.name, attempt);
+      return true;
+    } catch (e: unknown) {
+      lastError = e;
+      if (e instanceof Error) {
+        console.error("[JOB][ERR]", job.name, attempt, e.message);
+      } else {
+        console.error("[JOB][ERR]", job.name, attempt, e);
+      }
+      if (attempt >= maxAttempts) break;
+      await sleep(retryDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  try {
+    await job.onFailure?.(lastError);
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[JOB][FAILURE][ERR]", job.name, e.message);
+    } else {
+      console.error("[JOB][FAILURE][ERR]", job.name, e);
+    }
+  }
+  return false;
+}
+
+/** ====== Next.js の after() で応答を返したあとに実行する ======
+ * Vercel ではルートの maxDuration まで実行が続く
+ */
+export const afterJobQueue: JobQueue = {
+  enqueue(job) {
+    after(async () => {
+      await runJob(job);
+    });
+  },
+};
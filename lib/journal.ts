@@ -0,0 +1,307 @@
+// lib/journal.ts
+import type { DateRange, JournalLogRow, LogStore } from "@/lib/logStore";
+import { callOpenAIWithRetry } from "@/lib/openai";
+import { addDays, eachDate, parseDateRange, startOfWeek, toLocalDate, toLocalTime } from "@/lib/dates";
+import { newEntryId, rememberEntry } from "@/lib/entries";
+import { mealRowNutrients } from "@/lib/meals";
+import { sumNutrients } from "@/lib/nutrition";
+import { computeDailyTargets } from "@/lib/targets";
+
+/** ====== 型定義 ====== */
+export type JournalAnalysis = {
+  mood: number | null; // 1〜5
+  emotions: string[];
+  tags: string[];
+};
+
+// タグはこの中から選ばせる（集計できるように固定）
+export const JOURNAL_TAGS = [
+  "仕事",
+  "睡眠",
+  "人間関係",
+  "家族",
+  "ストレス",
+  "体調",
+  "運動",
+  "食事",
+  "趣味",
+  "勉強",
+  "お金",
+];
+
+// キーワードでのタグ付け（モデルが使えないときのフォールバック）
+const TAG_KEYWORDS: [string, RegExp][] = [
+  ["仕事", /仕事|会社|会議|上司|職場|残業|締め切り|プロジェクト/],
+  ["睡眠", /睡眠|眠|寝|起き|夜更かし/],
+  ["人間関係", /友達|友人|同僚|恋人|彼氏|彼女|人間関係/],
+  ["家族", /家族|子ども|子供|夫|妻|母|父|親/],
+  ["ストレス", /ストレス|イライラ|疲れ|しんどい|不安|焦/],
+  ["体調", /体調|頭痛|風邪|だるい|熱|痛/],
+  ["運動", /運動|走|ジム|筋トレ|散歩|ヨガ/],
+  ["食事", /食べ|ご飯|ごはん|食事|飲み/],
+  ["趣味", /趣味|映画|読書|ゲーム|音楽|旅行/],
+  ["勉強", /勉強|資格|試験|学習|本を読/],
+  ["お金", /お金|給料|節約|買い物|出費/],
+];
+
+const MOOD_EMOJI = ["", "😞", "😕", "😐", "🙂", "😄"];
+// この値以下を「気分が低い日」とみなす
+const LOW_MOOD = 2;
+
+/* ==================================================
+   本文の分析
+================================================== */
+
+const ANALYZE_PROMPT =
+  "あなたはカウンセラーです。ユーザーのジャーナルを読み、気分・感情・話題を分析してください。\n" +
+  "次の形式の JSON のみを出力してください。\n" +
+  '{"mood":3,"emotions":["不安","安心"],"tags":["仕事"]}\n' +
+  "mood: 1=とても悪い 2=悪い 3=ふつう 4=良い 5=とても良い の整数\n" +
+  "emotions: 読み取れる感情を日本語の短い単語で最大3つ\n" +
+  `tags: 話題を次から選ぶ（当てはまるものが無ければ空配列）: ${JOURNAL_TAGS.join(", ")}`;
+
+function tagsByKeywords(text: string): string[] {
+  return TAG_KEYWORDS.filter(([, re]) => re.test(text)).map(([tag]) => tag);
+}
+
+function validateAnalysis(raw: unknown): JournalAnalysis | null {
+  const obj = raw as { mood?: unknown; emotions?: unknown; tags?: unknown };
+  const mood = Math.round(Number(obj?.mood));
+  if (!Number.isFinite(mood) || mood < 1 || mood > 5) return null;
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim()) : [];
+  return {
+    mood,
+    emotions: strings(obj.emotions).slice(0, 3),
+    tags: strings(obj.tags).filter((t) => JOURNAL_TAGS.includes(t)),
+  };
+}
+
+/** ====== ジャーナルを分析（失敗したら気分は null、タグはキーワードで付ける） ====== */
+export async function analyzeJournal(text: string): Promise<JournalAnalysis> {
+  try {
+    const res = await callOpenAIWithRetry(
+      [
+        { role: "system", content: ANALYZE_PROMPT },
+        { role: "user", content: text },
+      ],
+      { maxRetries: 1, max_tokens: 150, temperature: 0.2, json: true }
+    );
+    const content = res.choices?.[0]?.message?.content ?? "";
+    const analysis = validateAnalysis(JSON.parse(content));
+    if (analysis) return analysis;
+    console.warn("[JOURNAL][INVALID]", content.slice(0, 200));
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[JOURNAL][ERR]", e.message);
+    } else {
+      console.error("[JOURNAL][ERR]", e);
+    }
+  }
+  return { mood: null, emotions: [], tags: tagsByKeywords(text) };
+}
+
+/** ====== 分析モデルの差し替え口 ====== */
+export interface JournalAnalyzer {
+  analyze(text: string): Promise<JournalAnalysis>;
+}
+
+export const openAIJournalAnalyzer: JournalAnalyzer = {
+  analyze: (text) => analyzeJournal(text),
+};
+
+/* ==================================================
+   行の変換と記録
+================================================== */
+
+/** 列が足りない古い行やシートの文字列（カンマ区切り）を JournalLogRow に揃える */
+export function normalizeJournalRow(row: unknown[]): JournalLogRow {
+  const list = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String);
+    return String(value ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  };
+  const mood = row[5] === null || row[5] === undefined || row[5] === "" ? null : Number(row[5]);
+  return [
+    String(row[0] ?? ""),
+    String(row[1] ?? ""),
+    String(row[2] ?? ""),
+    String(row[3] ?? ""),
+    String(row[4] ?? ""),
+    mood !== null && Number.isFinite(mood) ? mood : null,
+    list(row[6]),
+    list(row[7]),
+  ];
+}
+
+export function formatMood(mood: number): string {
+  return `${MOOD_EMOJI[mood] ?? ""} ${mood}/5`;
+}
+
+function formatAnalysis({ mood, emotions, tags }: JournalAnalysis): string {
+  const lines: string[] = [];
+  if (mood !== null) lines.push(`気分: ${formatMood(mood)}`);
+  if (emotions.length > 0) lines.push(`感情: ${emotions.join("、")}`);
+  if (tags.length > 0) lines.push(`タグ: ${tags.join("、")}`);
+  return lines.join("\n");
+}
+
+/** ====== ジャーナルを分析して記録し、返信テキストを返す ====== */
+export async function logJournal(
+  store: LogStore,
+  { userId, at, text, id = newEntryId() }: { userId: string; at: Date; text: string; id?: string },
+  analyzer: JournalAnalyzer = openAIJournalAnalyzer
+): Promise<string> {
+  const analysis = await analyzer.analyze(text);
+  await store.appendJournalLog([
+    toLocalDate(at),
+    toLocalTime(at),
+    text,
+    userId,
+    id,
+    analysis.mood,
+    analysis.emotions,
+    analysis.tags,
+  ]);
+  await rememberEntry(store, { userId, kind: "journal", id, date: toLocalDate(at) });
+  const details = formatAnalysis(analysis);
+  return `ジャーナルを記録しました✍️\n${text}${details ? `\n\n${details}` : ""}`;
+}
+
+/* ==================================================
+   気分と他の記録の関係
+================================================== */
+
+// 相関を見る期間（振り返りの最終日から遡る日数。1週間だけでは日数が足りないため）
+const CORRELATION_DAYS = 28;
+// 比較する両方のグループにこの日数以上あり、平均の差がこれ以上のときだけ知らせる
+const MIN_GROUP_DAYS = 2;
+const MIN_MOOD_DIFF = 0.5;
+
+type DayRecord = { date: string; mood: number; exercised: boolean; meditated: boolean; protein: number | null };
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** 気分の記録がある日について、その日の運動・瞑想・タンパク質をまとめる */
+async function collectDays(store: LogStore, userId: string, start: string, end: string): Promise<DayRecord[]> {
+  const [journal, exercise, meditation, meals] = await Promise.all([
+    store.getJournalLogsByRange(userId, start, end),
+    store.getExerciseLogsByRange(userId, start, end),
+    store.getMeditationLogsByRange(userId, start, end),
+    store.getMealLogsByRange(userId, start, end),
+  ]);
+  const exerciseDays = new Set(exercise.map((r) => r[0]));
+  const meditationDays = new Set(meditation.map((r) => r[0]));
+
+  const days: DayRecord[] = [];
+  for (const date of eachDate(start, end)) {
+    const moods = journal.filter((r) => r[0] === date && r[5] !== null).map((r) => r[5]!);
+    if (moods.length === 0) continue;
+    const dayMeals = meals.filter((r) => r[2] === date);
+    days.push({
+      date,
+      mood: average(moods),
+      exercised: exerciseDays.has(date),
+      meditated: meditationDays.has(date),
+      // 食事を記録していない日はタンパク質不明として比較から外す
+      protein: dayMeals.length > 0 ? sumNutrients(dayMeals.map(mealRowNutrients)).protein : null,
+    });
+  }
+  return days;
+}
+
+function compareGroups(label: [string, string], days: DayRecord[], inGroup: (d: DayRecord) => boolean): string | null {
+  const yes = days.filter(inGroup).map((d) => d.mood);
+  const no = days.filter((d) => !inGroup(d)).map((d) => d.mood);
+  if (yes.length < MIN_GROUP_DAYS || no.length < MIN_GROUP_DAYS) return null;
+  const [a, b] = [average(yes), average(no)];
+  if (Math.abs(a - b) < MIN_MOOD_DIFF) return null;
+  return `・${label[0]}の気分は平均 ${a.toFixed(1)}、${label[1]}は ${b.toFixed(1)}（${yes.length}日 / ${no.length}日）`;
+}
+
+/** 気分と運動・瞑想・タンパク質の関係を、差がはっきりしているものだけ文章にする（無ければ空配列） */
+export async function findMoodCorrelations(store: LogStore, userId: string, end: string): Promise<string[]> {
+  const start = addDays(end, -(CORRELATION_DAYS - 1));
+  const days = await collectDays(store, userId, start, end);
+
+  const profile = await store.getProfile(userId);
+  // タンパク質はプロフィールがあれば目標の7割、無ければ期間の中央値で分ける
+  const proteins = days.map((d) => d.protein).filter((p): p is number => p !== null).sort((a, b) => a - b);
+  const threshold = profile
+    ? computeDailyTargets(profile).protein.target * 0.7
+    : proteins.length > 0 ? proteins[Math.floor(proteins.length / 2)] : 0;
+  const proteinDays = days.filter((d) => d.protein !== null);
+
+  const lowMood = days.filter((d) => d.mood <= LOW_MOOD);
+  const lines = [
+    compareGroups(["運動した日", "しなかった日"], days, (d) => d.exercised),
+    compareGroups(["瞑想した日", "しなかった日"], days, (d) => d.meditated),
+    compareGroups(["タンパク質が少ない日", "足りている日"], proteinDays, (d) => d.protein! < threshold),
+  ].filter((line): line is string => line !== null);
+
+  if (lowMood.length >= MIN_GROUP_DAYS) {
+    const noExercise = lowMood.filter((d) => !d.exercised).length;
+    if (noExercise / lowMood.length >= 0.6) {
+      lines.push(`・気分が低かった ${lowMood.length} 日のうち ${noExercise} 日は運動していません`);
+    }
+  }
+  return lines;
+}
+
+/* ==================================================
+   週の振り返り
+================================================== */
+
+// 「（期間の）振り返り」だけの命令の形。「仕事の振り返りをした」のような日記の文は受け付けない
+const REFLECTION_COMMAND = /^(.{0,20}?)の?(?:振り返り|ふりかえり)(?:して|を?見せて|お願い)?[\s。.!！?？]*$/;
+
+/** 例: 「振り返り」「今週の振り返り」「先週の振り返り」。期間の表現が無ければ今週 */
+export function parseReflectionCommand(userText: string, now: Date): DateRange | null {
+  const m = userText.trim().match(REFLECTION_COMMAND);
+  if (!m) return null;
+  if (!m[1] || m[1] === "週") return { start: startOfWeek(toLocalDate(now)), end: toLocalDate(now) };
+  // 期間として読めない前置き（「仕事の振り返り」など）はコマンドとみなさない
+  const range = parseDateRange(m[1], now);
+  return range && range.start !== "ALL" ? range : null;
+}
+
+export async function buildReflection(store: LogStore, userId: string, range: DateRange): Promise<string> {
+  const rows = await store.getJournalLogsByRange(userId, range.start, range.end);
+  if (rows.length === 0) {
+    return `${range.start} 〜 ${range.end} のジャーナルはまだありません📭 思ったことを「日記 …」と送ってみてください。`;
+  }
+
+  const moods = rows.map((r) => r[5]).filter((m): m is number => m !== null);
+  const tagCounts = new Map<string, number>();
+  for (const tag of rows.flatMap((r) => r[7])) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+  const topTags = [...tagCounts].sort((a, b) => b[1] - a[1]).slice(0, 3);
+  const correlations = await findMoodCorrelations(store, userId, range.end);
+
+  const stats: string[] = [`記録: ${rows.length} 件`];
+  if (moods.length > 0) stats.push(`平均の気分: ${formatMood(Math.round(average(moods)))}（${average(moods).toFixed(1)}）`);
+  if (topTags.length > 0) stats.push(`よく出た話題: ${topTags.map(([tag, n]) => `${tag}(${n})`).join("、")}`);
+  const correlationText = correlations.length > 0 ? `\n\n📈 気づき（直近${CORRELATION_DAYS}日）\n${correlations.join("\n")}` : "";
+
+  // 長すぎるときは新しい方を残す
+  const entries = rows
+    .map((r) => `${r[0]} ${r[1]}${r[5] !== null ? ` [気分${r[5]}]` : ""}: ${r[2]}`)
+    .join("\n")
+    .slice(-6000);
+  const reflection = await callOpenAIWithRetry(
+    [
+      {
+        role: "system",
+        content:
+          "あなたは優しめの健康コーチです。以下はユーザーの1週間のジャーナルと、気分と生活習慣の関係の集計です。" +
+          "良かったこと、気分の波とそのきっかけ、来週試せる小さな工夫を1つ、合わせて短く振り返ってください。" +
+          "集計に気づきがあれば具体的に触れてください。断定や診断はしないこと。",
+      },
+      { role: "user", content: `${entries}\n\n${stats.join("\n")}${correlationText}` },
+    ],
+    { maxRetries: 1, max_tokens: 500 }
+  );
+  const reflectionText = reflection.choices?.[0]?.message?.content ?? "";
+
+  return `${range.start} 〜 ${range.end} の振り返り🌱\n${stats.join("\n")}${correlationText}\n\n${reflectionText}`;
+}
@@ -0,0 +1,190 @@
+// lib/line.ts
+import crypto from "crypto";
+import type { messagingApi } from "@line/bot-sdk";
+import { toMessages, toTextMessages, type Reply } from "@/lib/messages";
+
+/** ====== 返信・プッシュ共通 ======
+ * カードやクイックリプライが LINE に拒否された（400）ときは、テキストだけで送り直す
+ */
+export type Outgoing = string | Reply | Reply[];
+
+export function toReplies(outgoing: Outgoing): Reply[] {
+  if (typeof outgoing === "string") return [{ text: outgoing }];
+  return Array.isArray(outgoing) ? outgoing : [outgoing];
+}
+
+async function postMessages(
+  url: string,
+  target: Record<string, string>,
+  messages: messagingApi.Message[],
+  signal?: AbortSignal
+): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
+    },
+    body: JSON.stringify({ ...target, messages }),
+    signal,
+  });
+}
+
+function isRich(messages: messagingApi.Message[]): boolean {
+  return messages.some((m) => m.type !== "text" || m.quickReply);
+}
+
+/** ====== LINE 返信（送れたら true） ====== */
+export async function replyToLine(replyToken: string, reply: Outgoing): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 8000);
+  const url = "https://api.line.me/v2/bot/message/reply";
+  try {
+    const replies = toReplies(reply);
+    const messages = toMessages(replies);
+    let res = await postMessages(url, { replyToken }, messages, controller.signal);
+    // 400 では replyToken は消費されないので、同じトークンで送り直せる
+    if (res.status === 400 && isRich(messages)) {
+      console.warn("[LINE][REPLY][FALLBACK]", (await res.text().catch(() => "")).slice(0, 200));
+      res = await postMessages(url, { replyToken }, toTextMessages(replies), controller.signal);
+    }
+    const body = await res.text().catch(() => "");
+    console.log("[LINE][REPLY]", res.status, body?.slice(0, 120));
+    return res.ok;
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][REPLY][ERR]", e.message);
+    } else {
+      console.error("[LINE][REPLY][ERR]", e);
+    }
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** ====== LINE Pushメッセージ（送れたら true） ====== */
+export async function pushToLine(userId: string, message: Outgoing): Promise<boolean> {
+  const url = "https://api.line.me/v2/bot/message/push";
+  try {
+    const replies = toReplies(message);
+    const messages = toMessages(replies);
+    let res = await postMessages(url, { to: userId }, messages);
+    if (res.status === 400 && isRich(messages)) {
+      console.warn("[LINE][PUSH][FALLBACK]", (await res.text().catch(() => "")).slice(0, 200));
+      res = await postMessages(url, { to: userId }, toTextMessages(replies));
+    }
+    console.log("[LINE][PUSH]", res.status);
+    return res.ok;
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][PUSH][ERR]", e.message);
+    } else {
+      console.error("[LINE][PUSH][ERR]", e);
+    }
+    return false;
+  }
+}
+
+/** ====== 返信の配送 ======
+ * 時間のかかる処理のあとに送るので、リプライトークンがまだ使えそうならリプライ、
+ * 期限切れ・失敗ならプッシュメッセージで送る（プッシュは月の送信数の上限に数えられる）
+ */
+// リプライトークンは受信からおよそ1分で使えなくなるので、余裕をみて50秒までにする
+const REPLY_TOKEN_TTL_MS = 50 * 1000;
+
+export type DeliveryTarget = { userId: string; replyToken?: string; receivedAt: number };
+
+export async function deliverReply(
+  { userId, replyToken, receivedAt }: DeliveryTarget,
+  reply: Outgoing
+): Promise<boolean> {
+  if (replyToken && Date.now() - receivedAt < REPLY_TOKEN_TTL_MS) {
+    if (await replyToLine(replyToken, reply)) return true;
+  }
+  console.log("[LINE][DELIVER][PUSH]", userId);
+  return pushToLine(userId, reply);
+}
+
+/** ====== ローディングアニメーション（1対1のトークのみ。メッセージが届くか時間が来ると消える） ====== */
+export async function startLoadingAnimation(userId: string, seconds = 60): Promise<void> {
+  try {
+    const res = await fetch("https://api.line.me/v2/bot/chat/loading/start", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}`,
+      },
+      // loadingSeconds は 5〜60 の5秒刻み
+      body: JSON.stringify({ chatId: userId, loadingSeconds: seconds }),
+    });
+    console.log("[LINE][LOADING]", res.status);
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][LOADING][ERR]", e.message);
+    } else {
+      console.error("[LINE][LOADING][ERR]", e);
+    }
+  }
+}
+
+/** ====== LINE プロフィール取得 ====== */
+export async function getLineDisplayName(userId: string): Promise<string> {
+  try {
+    const res = await fetch(`https://api.line.me/v2/bot/profile/${userId}`, {
+      headers: { Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}` },
+    });
+    if (!res.ok) return "";
+    const profile = (await res.json()) as { displayName?: string };
+    return profile.displayName ?? "";
+  } catch (e: unknown) {
+    if (e instanceof Error) {
+      console.error("[LINE][PROFILE][ERR]", e.message);
+    } else {
+      console.error("[LINE][PROFILE][ERR]", e);
+    }
+    return "";
+  }
+}
+
+/** ====== メッセージのコンテンツ（画像・音声など）取得 ====== */
+export type MessageContent = { data: Buffer; contentType: string };
+
+export interface LineContentClient {
+  getMessageContent(messageId: string): Promise<MessageContent>;
+}
+
+export const lineContentClient: LineContentClient = {
+  async getMessageContent(messageId) {
+    const res = await fetch(`https://api-data.line.me/v2/bot/message/${messageId}/content`, {
+      headers: { Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}` },
+    });
+    if (!res.ok) {
+      throw new Error(`LINE content fetch failed: ${res.status}`);
+    }
+    return {
+      data: Buffer.from(await res.arrayBuffer()),
+      contentType: res.headers.get("content-type") ?? "application/octet-stream",
+    };
+  },
+};
+
+/** ====== Webhook の署名検証（x-line-signature はボディの HMAC-SHA256 を base64 にしたもの） ====== */
+export function verifyLineSignature(body: string, signature: string, channelSecret: string): boolean {
+  const hmac = crypto.createHmac("sha256", channelSecret).update(Buffer.from(body, "utf8")).digest("base64");
+  return !!signature && hmac === signature;
+}
+
+/** ====== イベント処理が使う LINE の操作（シミュレーターではターミナルに表示する実装を渡す） ====== */
+export interface LineClient extends LineContentClient {
+  deliver(target: DeliveryTarget, reply: Outgoing): Promise<boolean>;
+  startLoading(userId: string): Promise<void>;
+  getDisplayName(userId: string): Promise<string>;
+}
+
+export const lineApiClient: LineClient = {
+  deliver: deliverReply,
+  startLoading: (userId) => startLoadingAnimation(userId),
+  getDisplayName: getLineDisplayName,
+  getMessageContent: (messageId) => lineContentClient.getMessageContent(messageId),
+};
@@ -0,0 +1,58 @@
+// lib/lineLogin.ts
+
+/* ==================================================
+   LINE Login (OAuth 2.1 / OpenID Connect)
+   ダッシュボードのログインに使う。Messaging API のチャネルと同じプロバイダーに
+   LINE Login チャネルを作ると、ID トークンの sub がボットの userId と一致する。
+================================================== */
+
+const AUTHORIZE_URL = "https://access.line.me/oauth2/v2.1/authorize";
+const TOKEN_URL = "https://api.line.me/oauth2/v2.1/token";
+const VERIFY_URL = "https://api.line.me/oauth2/v2.1/verify";
+
+export const LOGIN_STATE_COOKIE = "hh_login_state";
+
+export function buildAuthorizeUrl(redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: process.env.LINE_LOGIN_CHANNEL_ID ?? "",
+    redirect_uri: redirectUri,
+    state,
+    scope: "openid profile",
+  });
+  return `${AUTHORIZE_URL}?${params}`;
+}
+
+/** 認可コードをトークンに交換し、ID トークンを検証して LINE の userId (sub) を返す */
+export async function exchangeCodeForUserId(code: string, redirectUri: string): Promise<string> {
+  const clientId = process.env.LINE_LOGIN_CHANNEL_ID ?? "";
+
+  const tokenRes = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: process.env.LINE_LOGIN_CHANNEL_SECRET ?? "",
+    }),
+  });
+  if (!tokenRes.ok) {
+    throw new Error(`LINE Login token exchange failed: ${tokenRes.status}`);
+  }
+  const { id_token } = (await tokenRes.json()) as { id_token?: string };
+  if (!id_token) throw new Error("LINE Login response has no id_token");
+
+  const verifyRes = await fetch(VERIFY_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ id_token, client_id: clientId }),
+  });
+  if (!verifyRes.ok) {
+    throw new Error(`LINE Login id_token verification failed: ${verifyRes.status}`);
+  }
+  const claims = (await verifyRes.json()) as { sub?: string };
+  if (!claims.sub) throw new Error("LINE Login id_token has no sub");
+  return claims.sub;
+}
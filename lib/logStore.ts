@@ -0,0 +1,245 @@
+// lib/logStore.ts
+import { sheetsLogStore } from "@/lib/sheets";
+import { createFileLogStore, createMemoryLogStore } from "@/lib/fileStore";
+import type { MetricKind } from "@/lib/metrics";
+
+/** ====== 型定義 ====== */
+
+// 食事ログ 16列: [Date, Time, MealDate, MealType, Input, kcal, protein, fat, carbs, B6, D, Mg, Fe, Zn, UserId, Id]
+export type MealLogRow = [
+  string, // 日付 (YYYY-MM-DD)
+  string, // 時刻 (HH:MM)
+  string, // MealDate
+  string, // MealType
+  string, // 入力内容
+  number, // kcal
+  number, // protein
+  number, // fat
+  number, // carbs
+  number, // vitaminB6
+  number, // vitaminD
+  number, // magnesium
+  number, // iron
+  number, // zinc
+  string, // LINE userId
+  string  // 記録ID
+];
+
+// 食事の品目ごとの内訳 17列: [Date, Time, MealDate, MealType, ItemName, Portion, kcal, protein, fat, carbs, B6, D, Mg, Fe, Zn, UserId, MealId]
+export type MealItemRow = [
+  string, // 日付 (YYYY-MM-DD)
+  string, // 時刻 (HH:MM)
+  string, // MealDate
+  string, // MealType
+  string, // 食品名
+  string, // 推定量
+  number, // kcal
+  number, // protein
+  number, // fat
+  number, // carbs
+  number, // vitaminB6
+  number, // vitaminD
+  number, // magnesium
+  number, // iron
+  number, // zinc
+  string, // LINE userId
+  string  // 食事ログの記録ID
+];
+
+// 運動 / 瞑想 / ジャーナルに共通の先頭5列 [Date, Time, Text, UserId, Id]
+export type SimpleLogRow = [string, string, string, string, string];
+export type SimpleLogKind = "exercise" | "meditation" | "journal";
+
+export type ExerciseIntensity = "low" | "moderate" | "high";
+
+// 運動ログ 13列: SimpleLogRow の5列 + [Activity, DurationMin, DistanceKm, Sets, Reps, WeightKg, Intensity, Kcal]
+// 分からない項目は null（シートでは空欄）
+export type ExerciseLogRow = [
+  string, // Date
+  string, // Time
+  string, // Text
+  string, // LINE userId
+  string, // 記録ID
+  string, // 種目（ランニング・筋トレ など）
+  number | null, // 時間（分）
+  number | null, // 距離 (km)
+  number | null, // セット数
+  number | null, // 1セットの回数
+  number | null, // 重量 (kg)
+  ExerciseIntensity,
+  number | null  // 推定消費カロリー (kcal)
+];
+
+// 瞑想ログ 9列: SimpleLogRow の5列 + [Technique, DurationMin, StartedAt, EndedAt]
+// StartedAt / EndedAt は「瞑想開始」〜「瞑想終了」で記録したときだけ入る (ISO)
+export type MeditationLogRow = [
+  string, // Date
+  string, // Time
+  string, // Text
+  string, // LINE userId
+  string, // 記録ID
+  string, // 手法（呼吸法・ボディスキャン・座禅 など）
+  number | null, // 時間（分）
+  string, // 開始日時 (ISO)
+  string  // 終了日時 (ISO)
+];
+
+// ジャーナル 8列: SimpleLogRow の5列 + [Mood, Emotions, Tags]（配列はシートではカンマ区切り）
+export type JournalLogRow = [
+  string, // Date
+  string, // Time
+  string, // Text
+  string, // LINE userId
+  string, // 記録ID
+  number | null, // 気分スコア（1=とても悪い 〜 5=とても良い）
+  string[], // 感情（例: 不安, 嬉しい）
+  string[]  // トピックのタグ（JOURNAL_TAGS から選ぶ）
+];
+
+// 体重・睡眠などの指標（種類は lib/metrics.ts のレジストリから決まる）
+export type { MetricKind };
+export type MetricValue = number | string | null;
+// 指標ログ: SimpleLogRow の5列 + 項目の値（MetricDefinition.fields の順。読み取れない項目は null）
+export type MetricLogRow = [string, string, string, string, string, ...MetricValue[]];
+
+// 進行中の瞑想セッション 3列: [UserId, StartedAt (ISO), Technique]
+export type MeditationSessionRow = [string, string, string];
+
+// コーチとの会話 4列: [UserId, At (ISO), Role, Content]
+export type ConversationTurnRow = [string, string, ConversationRole, string];
+export type ConversationRole = "user" | "assistant";
+
+// チャットで付けた記録の履歴 5列: [UserId, At (ISO), Kind, Id, Date]（「取り消し」で最後の記録を探すのに使う。
+// Kind は meal/exercise/meditation/journal か指標の種類、Date はその記録が載っている日付で食事は MealDate。
+// Kind が edit の行は取り消し・修正を済ませた印で、Id はそのイベントの記録ID、Date は空）
+export type RecentEntryRow = [string, string, string, string, string];
+
+// 処理済みの Webhook イベント 4列: [WebhookEventId, ReceivedAt (ISO), UserId, ClaimId]
+// ClaimId は記録するたびに作る ID（同時に届いた同じイベントのどれが処理するかを決めるのに使う）
+export type WebhookEventRow = [string, string, string, string];
+
+// ユーザー登録 8列: [UserId, DisplayName, Status, ReminderOptIn, FollowedAt, UpdatedAt, ReminderTimes, ReminderCategories]
+export type UserRow = [
+  string, // LINE userId
+  string, // 表示名
+  UserStatus,
+  boolean, // リマインダー受信可否
+  string, // フォロー日時 (ISO)
+  string, // 更新日時 (ISO)
+  string[], // リマインダー時刻（HH:00、シートではカンマ区切り）
+  ReminderCategory[] // リマインダーで確認する記録の種類
+];
+
+export type UserStatus = "active" | "unfollowed";
+export type ReminderCategory = "meal" | "exercise" | "meditation" | "journal";
+
+// プロフィール 7列: [UserId, Age, Sex, WeightKg, ActivityLevel, Goal, UpdatedAt]
+export type ProfileRow = [
+  string, // LINE userId
+  number, // 年齢
+  Sex,
+  number, // 体重 (kg)
+  ActivityLevel,
+  Goal,
+  string  // 更新日時 (ISO)
+];
+
+export type Sex = "male" | "female";
+export type ActivityLevel = "low" | "moderate" | "high";
+export type Goal = "cut" | "maintain" | "gain";
+
+export type DateRange = { start: string; end: string };
+
+/** ====== 保存先の共通インターフェース ======
+ * 記録の追加（append*）は、同じ UserId・記録ID の行が既にあればその行を追加しない
+ * （Webhook の再送で同じ記録が2行にならないように。食事の内訳は食事の記録IDで判定）
+ */
+export interface LogStore {
+  appendMealLog(row: MealLogRow): Promise<void>;
+  /** まとめて追加（インポート用） */
+  appendMealLogs(rows: MealLogRow[]): Promise<void>;
+  getMealLogsByDate(userId: string, date: string): Promise<MealLogRow[]>;
+  /** start/end に "ALL" を渡すと全期間 */
+  getMealLogsByRange(userId: string, start: string, end: string): Promise<MealLogRow[]>;
+  getMealLogDateRange(userId: string): Promise<DateRange | null>;
+  appendMealItemLogs(rows: MealItemRow[]): Promise<void>;
+  getMealItemLogs(userId: string, mealId: string): Promise<MealItemRow[]>;
+  /** 記録IDが一致する行を上書き（見つからなければ false） */
+  updateMealLog(row: MealLogRow): Promise<boolean>;
+  /** 品目ごとの内訳も一緒に削除（見つからなければ false） */
+  deleteMealLog(userId: string, id: string): Promise<boolean>;
+  /** 食事の行と品目ごとの内訳をまとめて書き換える（内訳は置き換え。食事が見つからなければ false） */
+  updateMealLogWithItems(row: MealLogRow, items: MealItemRow[]): Promise<boolean>;
+
+  appendExerciseLog(row: ExerciseLogRow): Promise<void>;
+  appendMeditationLog(row: MeditationLogRow): Promise<void>;
+  appendJournalLog(row: JournalLogRow): Promise<void>;
+  /** まとめて追加（インポート用） */
+  appendExerciseLogs(rows: ExerciseLogRow[]): Promise<void>;
+  appendMeditationLogs(rows: MeditationLogRow[]): Promise<void>;
+  appendJournalLogs(rows: JournalLogRow[]): Promise<void>;
+  /** start/end に "ALL" を渡すと全期間（日付は Date 列で判定） */
+  getExerciseLogsByRange(userId: string, start: string, end: string): Promise<ExerciseLogRow[]>;
+  getMeditationLogsByRange(userId: string, start: string, end: string): Promise<MeditationLogRow[]>;
+  getJournalLogsByRange(userId: string, start: string, end: string): Promise<JournalLogRow[]>;
+  /** 先頭5列だけを上書き（6列目以降の詳細列はそのまま） */
+  updateSimpleLog(kind: SimpleLogKind, row: SimpleLogRow): Promise<boolean>;
+  deleteSimpleLog(kind: SimpleLogKind, userId: string, id: string): Promise<boolean>;
+
+  appendMetricLog(kind: MetricKind, row: MetricLogRow): Promise<void>;
+  appendMetricLogs(kind: MetricKind, rows: MetricLogRow[]): Promise<void>;
+  /** start/end に "ALL" を渡すと全期間（日付は Date 列で判定） */
+  getMetricLogsByRange(kind: MetricKind, userId: string, start: string, end: string): Promise<MetricLogRow[]>;
+  deleteMetricLog(kind: MetricKind, userId: string, id: string): Promise<boolean>;
+
+  /** 「瞑想開始」〜「瞑想終了」の間だけ存在する（ユーザーごとに1件） */
+  getMeditationSession(userId: string): Promise<MeditationSessionRow | null>;
+  upsertMeditationSession(row: MeditationSessionRow): Promise<void>;
+  deleteMeditationSession(userId: string): Promise<boolean>;
+
+  /** コーチとの会話。新しい方から limit 件を古い順で返す */
+  getConversationTurns(userId: string, limit: number): Promise<ConversationTurnRow[]>;
+  /** 追加したあと、そのユーザーの古い発言を keep 件まで削る */
+  appendConversationTurns(userId: string, rows: ConversationTurnRow[], keep: number): Promise<void>;
+
+  /** チャットで付けた記録の履歴。新しい方から limit 件を古い順で返す */
+  getRecentEntries(userId: string, limit: number): Promise<RecentEntryRow[]>;
+  /** 追加したあと、そのユーザーの古い履歴を keep 件まで削る */
+  appendRecentEntry(row: RecentEntryRow, keep: number): Promise<void>;
+
+  /** 処理済みとして記録する。同じ ID が既にあれば false（expiresBefore より前の記録は期限切れとして消す） */
+  claimWebhookEvent(row: WebhookEventRow, expiresBefore: string): Promise<boolean>;
+  /** 処理に失敗したイベントの記録を消す（再送で処理し直せるように） */
+  releaseWebhookEvent(eventId: string): Promise<void>;
+
+  getUsers(): Promise<UserRow[]>;
+  getUser(userId: string): Promise<UserRow | null>;
+  upsertUser(row: UserRow): Promise<void>;
+
+  getProfile(userId: string): Promise<ProfileRow | null>;
+  upsertProfile(row: ProfileRow): Promise<void>;
+}
+
+/** ====== 保存先の選択 ======
+ * LOG_STORE=sheets（既定）: Google Sheets
+ * LOG_STORE=file: ローカルの JSON ファイル（LOG_STORE_FILE、既定 .data/logs.json）
+ * LOG_STORE=memory: メモリ上（再起動で消える。シミュレーターや動作確認用）
+ */
+let store: LogStore | null = null;
+
+export function getLogStore(): LogStore {
+  if (store) return store;
+
+  const kind = process.env.LOG_STORE ?? "sheets";
+  if (kind === "file") {
+    store = createFileLogStore(process.env.LOG_STORE_FILE ?? ".data/logs.json");
+  } else if (kind === "memory") {
+    store = createMemoryLogStore();
+  } else if (kind === "sheets") {
+    store = sheetsLogStore;
+  } else {
+    throw new Error(`Unknown LOG_STORE: ${kind}`);
+  }
+  console.log("[STORE]", kind);
+  return store;
+}
@@ -0,0 +1,215 @@
+// lib/meals.ts
+import type { LogStore, MealLogRow } from "@/lib/logStore";
+import { newEntryId, rememberEntry } from "@/lib/entries";
+import type { LineContentClient } from "@/lib/line";
+import { localHour, parseDateExpression, toLocalDate, toLocalTime } from "@/lib/dates";
+import {
+  formatEstimate,
+  formatItems,
+  NutritionEstimateError,
+  sumNutrients,
+  type NutritionEstimate,
+  type NutritionEstimator,
+  type Nutrients,
+} from "@/lib/nutrition";
+import { computeDailyTargets, formatMealProgress } from "@/lib/targets";
+import { PROFILE_HINT } from "@/lib/profile";
+import { mealCard } from "@/lib/flex";
+import { mealTypeItems, textReply, undoItem, weeklySummaryItem, type Reply } from "@/lib/messages";
+
+/** ====== MealType 判定 ====== */
+export function detectMealType(userText: string): string | null {
+  const text = userText.toLowerCase();
+  if (text.includes("朝") || text.includes("breakfast")) return "朝食";
+  if (text.includes("昼") || text.includes("ランチ") || text.includes("lunch")) return "昼食";
+  if (text.includes("夜") || text.includes("夕") || text.includes("dinner")) return "夕食";
+  if (text.includes("間食") || text.includes("おやつ") || text.includes("snack")) return "間食";
+  return null;
+}
+
+/** ====== 時刻から MealType を推定（写真など本文が無い場合） ====== */
+export function mealTypeFromTime(at: Date): string {
+  const hour = localHour(at);
+  if (hour >= 4 && hour < 10) return "朝食";
+  if (hour >= 10 && hour < 15) return "昼食";
+  if (hour >= 17 && hour < 23) return "夕食";
+  return "間食";
+}
+
+/** ====== MealDate 判定（日付の表現が無ければ今日） ====== */
+export function detectMealDate(userText: string, now: Date): string {
+  return parseDateExpression(userText, now) ?? toLocalDate(now);
+}
+
+/** ====== 食事ログの行から栄養素を取り出す ====== */
+export function mealRowNutrients(row: MealLogRow): Nutrients {
+  return {
+    kcal: Number(row[5] || 0),
+    protein: Number(row[6] || 0),
+    fat: Number(row[7] || 0),
+    carbs: Number(row[8] || 0),
+    vitaminB6: Number(row[9] || 0),
+    vitaminD: Number(row[10] || 0),
+    magnesium: Number(row[11] || 0),
+    iron: Number(row[12] || 0),
+    zinc: Number(row[13] || 0),
+  };
+}
+
+/** ====== 食事の合計と品目ごとの内訳を保存（記録IDを返す） ====== */
+export async function saveMealEstimate(
+  store: LogStore,
+  {
+    userId,
+    at,
+    mealDate,
+    mealType,
+    input,
+    estimate,
+    id = newEntryId(),
+  }: {
+    userId: string;
+    at: Date;
+    mealDate: string;
+    mealType: string;
+    input: string;
+    estimate: NutritionEstimate;
+    id?: string;
+  }
+): Promise<string> {
+  const date = toLocalDate(at);
+  const time = toLocalTime(at);
+  const { total } = estimate;
+
+  await store.appendMealLog([
+    date,
+    time,
+    mealDate,
+    mealType,
+    input,
+    total.kcal,
+    total.protein,
+    total.fat,
+    total.carbs,
+    total.vitaminB6,
+    total.vitaminD,
+    total.magnesium,
+    total.iron,
+    total.zinc,
+    userId,
+    id,
+  ]);
+  await store.appendMealItemLogs(
+    estimate.items.map((item) => [
+      date,
+      time,
+      mealDate,
+      mealType,
+      item.name,
+      item.portion,
+      item.kcal,
+      item.protein,
+      item.fat,
+      item.carbs,
+      item.vitaminB6,
+      item.vitaminD,
+      item.magnesium,
+      item.iron,
+      item.zinc,
+      userId,
+      id,
+    ])
+  );
+  await rememberEntry(store, { userId, kind: "meal", id, date: mealDate });
+  return id;
+}
+
+/** ====== 記録後の返信（プロフィールがあれば目標に対する割合を付ける） ======
+ * 保存済みの食事を含めた MealDate の累計で判定する。
+ * カードには取り消しと今週のサマリー、食事の種類が分からなければ朝食〜間食の選択肢を付ける
+ */
+export async function buildMealReply(
+  store: LogStore,
+  {
+    userId,
+    mealId,
+    mealDate,
+    mealType,
+    estimate,
+    header,
+  }: { userId: string; mealId: string; mealDate: string; mealType: string; estimate: NutritionEstimate; header: string }
+): Promise<Reply> {
+  const quickReply = [
+    ...(mealType ? [] : mealTypeItems(mealId, mealDate)),
+    undoItem("meal", mealId, mealDate),
+    weeklySummaryItem("meal"),
+  ];
+
+  const profile = await store.getProfile(userId);
+  if (!profile) {
+    return {
+      text: `${header}\n${formatEstimate(estimate)}\n\n${PROFILE_HINT}`,
+      flex: mealCard({ title: header, mealDate, mealType, estimate, today: null, targets: null, note: PROFILE_HINT }),
+      quickReply,
+    };
+  }
+
+  const targets = computeDailyTargets(profile);
+  const todayRows = await store.getMealLogsByDate(userId, mealDate);
+  const today = sumNutrients(todayRows.map(mealRowNutrients));
+  return {
+    text: `${header}\n${formatItems(estimate)}\n\n${formatMealProgress(estimate.total, today, targets)}`,
+    flex: mealCard({ title: header, mealDate, mealType, estimate, today, targets }),
+    quickReply,
+  };
+}
+
+/** ====== 写真から食事を記録し、返信を返す ====== */
+export type MealPhotoDeps = {
+  store: LogStore;
+  content: LineContentClient;
+  estimator: NutritionEstimator;
+};
+
+export async function logMealFromImage(
+  { userId, messageId, timestamp, id }: { userId: string; messageId: string; timestamp: number; id?: string },
+  { store, content, estimator }: MealPhotoDeps
+): Promise<Reply> {
+  const image = await content.getMessageContent(messageId);
+
+  let estimate: NutritionEstimate;
+  try {
+    estimate = await estimator.fromImage(image);
+  } catch (e: unknown) {
+    if (!(e instanceof NutritionEstimateError)) throw e;
+    console.error("[NUTRITION][IMAGE][ERR]", e.message);
+    return textReply("写真から食事を読み取れませんでした🙏 料理が写るように撮り直すか、内容をテキストで送ってください。");
+  }
+  if (estimate.items.length === 0) {
+    console.log("[NUTRITION][IMAGE] no food", userId);
+    return textReply("写真に食べ物が見つかりませんでした📷 食事の写真を送るか、内容をテキストで送ってください。");
+  }
+
+  // LINE の画像メッセージには本文が付かないため、送信時刻から食事の種類と日付を決める
+  const at = new Date(timestamp);
+  const mealType = mealTypeFromTime(at);
+  const mealDate = toLocalDate(at);
+  const mealId = await saveMealEstimate(store, {
+    userId,
+    at,
+    mealDate,
+    mealType,
+    input: `📷 ${estimate.items.map((item) => item.name).join("、")}`,
+    estimate,
+    id,
+  });
+
+  return buildMealReply(store, {
+    userId,
+    mealId,
+    mealDate,
+    mealType,
+    estimate,
+    header: `記録しました📊（${mealType}・写真）`,
+  });
+}
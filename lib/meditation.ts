@@ -0,0 +1,213 @@
+// lib/meditation.ts
+import type { LogStore, MeditationLogRow } from "@/lib/logStore";
+import { addDays, currentStreak, parseDurationMinutes, startOfWeek, toLocalDate, toLocalTime } from "@/lib/dates";
+import { newEntryId, rememberEntry } from "@/lib/entries";
+
+/** ====== 型定義 ====== */
+export type MeditationDetails = {
+  technique: string;
+  durationMin: number | null;
+};
+
+/* ==================================================
+   手法の判定
+================================================== */
+
+// 上から順に判定し、最初に当てはまった手法を使う（「歩く瞑想」は呼吸法より先に見る）
+const TECHNIQUES: [string, RegExp][] = [
+  ["歩く瞑想", /歩く瞑想|歩行瞑想|ウォーキングメディテーション|walking/],
+  ["ボディスキャン", /ボディスキャン|body\s*scan/],
+  ["慈悲の瞑想", /慈悲|メッタ|コンパッション|loving|metta/],
+  ["座禅", /座禅|坐禅|禅|zazen/],
+  ["呼吸法", /呼吸|数息|ブリージング|breath/],
+  ["マインドフルネス", /マインドフル|mindful/],
+  ["ガイド瞑想", /ガイド|アプリ|guided/],
+];
+
+const DEFAULT_TECHNIQUE = "瞑想";
+
+// 「瞑想開始」から「瞑想終了」までがこれより長ければ、終了の送り忘れとみなして記録しない
+const MAX_SESSION_MINUTES = 180;
+
+/** 例: 「瞑想20分」「呼吸法 10分」「ボディスキャンを15分」「座禅1時間」 */
+export function parseMeditation(userText: string): MeditationDetails {
+  const text = userText.toLowerCase();
+  const technique = TECHNIQUES.find(([, re]) => re.test(text))?.[0] ?? DEFAULT_TECHNIQUE;
+  return { technique, durationMin: parseDurationMinutes(text) };
+}
+
+/** 列が足りない古い行やシートの文字列を MeditationLogRow に揃える（詳細列が無ければ本文から解釈し直す） */
+export function normalizeMeditationRow(row: unknown[]): MeditationLogRow {
+  const base: [string, string, string, string, string] = [
+    String(row[0] ?? ""),
+    String(row[1] ?? ""),
+    String(row[2] ?? ""),
+    String(row[3] ?? ""),
+    String(row[4] ?? ""),
+  ];
+  if (!row[5]) {
+    const details = parseMeditation(base[2]);
+    return [...base, details.technique, details.durationMin, "", ""];
+  }
+  const minutes = row[6] === null || row[6] === undefined || row[6] === "" ? null : Number(row[6]);
+  return [
+    ...base,
+    String(row[5]),
+    minutes !== null && Number.isFinite(minutes) ? minutes : null,
+    String(row[7] ?? ""),
+    String(row[8] ?? ""),
+  ];
+}
+
+/** 集計用の時間（分）。時間が分からない記録は null */
+export function meditationMinutes(row: MeditationLogRow): number | null {
+  return row[6] ?? parseDurationMinutes(row[2]);
+}
+
+/* ==================================================
+   記録と返信
+================================================== */
+
+// 連続記録を数えるために一度に読む日数（今週の合計もこの中に収まる）
+const STREAK_READ_DAYS = 30;
+
+/** 記録後に添える今週の合計時間と連続記録 */
+async function formatProgress(store: LogStore, userId: string, now: Date): Promise<string> {
+  const today = toLocalDate(now);
+  let start = addDays(today, -(STREAK_READ_DAYS - 1));
+  const rows = await store.getMeditationLogsByRange(userId, start, today);
+  const weekStart = startOfWeek(today);
+  const weekMinutes = rows
+    .filter((row) => row[0] >= weekStart)
+    .reduce((sum, row) => sum + (meditationMinutes(row) ?? 0), 0);
+
+  // 読んだ範囲の端まで続いていれば、途切れるところまで遡って読み足す（昨日までの連続もあるので1日の余裕を見る）
+  let streak = currentStreak(rows.map((row) => row[0]), today);
+  for (let days = STREAK_READ_DAYS; streak >= days - 1; days += STREAK_READ_DAYS) {
+    const older = await store.getMeditationLogsByRange(userId, addDays(start, -STREAK_READ_DAYS), addDays(start, -1));
+    if (older.length === 0) break;
+    start = addDays(start, -STREAK_READ_DAYS);
+    rows.push(...older);
+    streak = currentStreak(rows.map((row) => row[0]), today);
+  }
+  return `今週の合計: ${weekMinutes} 分\n連続記録: ${streak} 日🔥`;
+}
+
+async function saveMeditation(
+  store: LogStore,
+  { userId, at, text, details, startedAt = "", endedAt = "", id = newEntryId() }: {
+    userId: string;
+    at: Date;
+    text: string;
+    details: MeditationDetails;
+    startedAt?: string;
+    endedAt?: string;
+    id?: string;
+  }
+): Promise<void> {
+  await store.appendMeditationLog([
+    toLocalDate(at),
+    toLocalTime(at),
+    text,
+    userId,
+    id,
+    details.technique,
+    details.durationMin,
+    startedAt,
+    endedAt,
+  ]);
+  await rememberEntry(store, { userId, kind: "meditation", id, date: toLocalDate(at) });
+}
+
+/** ====== 本文から瞑想を記録し、返信テキストを返す ====== */
+export async function logMeditation(
+  store: LogStore,
+  { userId, at, text, id }: { userId: string; at: Date; text: string; id?: string }
+): Promise<string> {
+  const details = parseMeditation(text);
+  await saveMeditation(store, { userId, at, text, details, id });
+
+  const duration = details.durationMin !== null ? ` / ${details.durationMin}分` : "";
+  return `瞑想を記録しました🧘\n${text}\n${details.technique}${duration}\n\n${await formatProgress(store, userId, at)}`;
+}
+
+/* ==================================================
+   「瞑想開始」〜「瞑想終了」のセッション
+================================================== */
+
+export type MeditationCommand = { kind: "start"; technique: string } | { kind: "end" } | { kind: "cancel" };
+
+/**
+ * 例: 「瞑想開始」「呼吸法で瞑想開始」「瞑想終了」「瞑想キャンセル」
+ * 「瞑想終了 20分」のように時間が書かれていれば通常の記録として扱う（null）。
+ */
+export function parseMeditationCommand(userText: string): MeditationCommand | null {
+  const text = userText.trim().toLowerCase();
+  if (!/瞑想|座禅|坐禅|meditation/.test(text)) return null;
+
+  if (/(?:開始|スタート|始め(?:る|ます)?)[。!！]?$|^start/.test(text)) {
+    const { technique } = parseMeditation(text);
+    return { kind: "start", technique };
+  }
+  if (/(?:キャンセル|中止|やめ(?:る|ます)?)[。!！]?$/.test(text)) return { kind: "cancel" };
+  if (/(?:終了|おわり|終わり|ストップ)[。!！]?$|^stop/.test(text) && parseDurationMinutes(text) === null) {
+    return { kind: "end" };
+  }
+  return null;
+}
+
+/**
+ * コマンドを実行して返信テキストを返す（id は終了で作る記録の記録ID）。
+ * 終了では記録を保存してからセッションを消すので、途中で失敗してもやり直しで同じ記録IDのまま保存し直せる
+ */
+export async function applyMeditationCommand(
+  store: LogStore,
+  userId: string,
+  cmd: MeditationCommand,
+  now: Date,
+  id?: string
+): Promise<string> {
+  const session = await store.getMeditationSession(userId);
+
+  if (cmd.kind === "start") {
+    if (session) {
+      return `${toLocalTime(new Date(session[1]))} に始めた瞑想が続いています🧘\n終わったら「瞑想終了」、やめるときは「瞑想キャンセル」と送ってください。`;
+    }
+    await store.upsertMeditationSession([userId, now.toISOString(), cmd.technique]);
+    return `${cmd.technique}を始めましょう🧘 ${toLocalTime(now)} 開始\n終わったら「瞑想終了」と送ってください。`;
+  }
+
+  if (!session) {
+    return "進行中の瞑想はありません。「瞑想開始」で始めるか、「瞑想20分」のように送ってください🧘";
+  }
+  if (cmd.kind === "cancel") {
+    await store.deleteMeditationSession(userId);
+    return "瞑想を取り消しました（記録していません）";
+  }
+
+  const [, startedAt, technique] = session;
+  const start = new Date(startedAt);
+  const minutes = Math.round((now.getTime() - start.getTime()) / 60000);
+  if (minutes > MAX_SESSION_MINUTES) {
+    await store.deleteMeditationSession(userId);
+    return (
+      `開始（${toLocalDate(start)} ${toLocalTime(start)}）から${MAX_SESSION_MINUTES}分以上経っているため記録しませんでした🙏\n` +
+      "「瞑想20分」のように時間を送ってもらえれば記録します。"
+    );
+  }
+
+  const durationMin = Math.max(1, minutes);
+  const text = `${technique} ${durationMin}分`;
+  await saveMeditation(store, {
+    userId,
+    at: start,
+    text,
+    details: { technique, durationMin },
+    startedAt,
+    endedAt: now.toISOString(),
+    id,
+  });
+  const progress = await formatProgress(store, userId, now);
+  await store.deleteMeditationSession(userId);
+  return `お疲れさまでした🧘 ${toLocalTime(start)}〜${toLocalTime(now)}（${durationMin}分）を記録しました\n\n${progress}`;
+}
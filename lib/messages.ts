@@ -0,0 +1,146 @@
+// lib/messages.ts
+import type { messagingApi } from "@line/bot-sdk";
+
+/** ====== 返信の型 ======
+ * どの返信も text を必ず持つ（Flex の altText と、送れなかったときのフォールバックに使う）。
+ * カード（Flex Message）とクイックリプライは付けられるときだけ付ける
+ */
+export type Reply = {
+  text: string;
+  flex?: messagingApi.FlexBubble;
+  quickReply?: messagingApi.QuickReplyItem[];
+};
+
+export function textReply(text: string): Reply {
+  return { text };
+}
+
+/* ==================================================
+   LINE の上限（https://developers.line.biz/ja/reference/messaging-api/）
+================================================== */
+
+const MAX_MESSAGES = 5; // 1回の返信・プッシュで送れる件数
+const MAX_TEXT_LENGTH = 5000;
+const MAX_ALT_TEXT_LENGTH = 1500;
+const MAX_BUBBLE_BYTES = 30 * 1024; // bubble の JSON サイズ
+const MAX_QUICK_REPLY_ITEMS = 13;
+const MAX_LABEL_LENGTH = 20;
+const MAX_POSTBACK_DATA_LENGTH = 300;
+
+function truncate(text: string, max: number): string {
+  const chars = [...text];
+  return chars.length <= max ? text : `${chars.slice(0, max - 1).join("")}…`;
+}
+
+function fitsBubble(bubble: messagingApi.FlexBubble): boolean {
+  return Buffer.byteLength(JSON.stringify(bubble), "utf8") <= MAX_BUBBLE_BYTES;
+}
+
+function isValidQuickReplyItem(item: messagingApi.QuickReplyItem): boolean {
+  const action = item.action;
+  if (!action?.label || [...action.label].length > MAX_LABEL_LENGTH) return false;
+  return action.type !== "postback" || (action.data ?? "").length <= MAX_POSTBACK_DATA_LENGTH;
+}
+
+/* ==================================================
+   送信メッセージへの変換
+================================================== */
+
+function textMessage(text: string): messagingApi.TextMessage {
+  return { type: "text", text: truncate(text || " ", MAX_TEXT_LENGTH) };
+}
+
+/**
+ * 返信の並びを LINE のメッセージに変換する。
+ * カードの無い返信は続けて1通のテキストにまとめ、クイックリプライは最後のメッセージに付ける
+ * （LINE は最後のメッセージのクイックリプライだけを表示する）。件数が上限を超えたら全部テキストにする
+ */
+export function toMessages(replies: Reply[]): messagingApi.Message[] {
+  const messages: messagingApi.Message[] = [];
+  let pending: string[] = [];
+  const flush = () => {
+    if (pending.length > 0) messages.push(textMessage(pending.join("\n\n")));
+    pending = [];
+  };
+
+  for (const reply of replies) {
+    if (reply.flex && fitsBubble(reply.flex)) {
+      flush();
+      messages.push({ type: "flex", altText: truncate(reply.text, MAX_ALT_TEXT_LENGTH), contents: reply.flex });
+    } else {
+      pending.push(reply.text);
+    }
+  }
+  flush();
+  if (messages.length > MAX_MESSAGES) return toTextMessages(replies);
+
+  const labels = new Set<string>();
+  const items = replies
+    .flatMap((r) => r.quickReply ?? [])
+    .filter((item) => {
+      if (!isValidQuickReplyItem(item) || labels.has(item.action!.label!)) return false;
+      labels.add(item.action!.label!);
+      return true;
+    })
+    .slice(0, MAX_QUICK_REPLY_ITEMS);
+  if (items.length > 0 && messages.length > 0) messages[messages.length - 1].quickReply = { items };
+  return messages;
+}
+
+/** カードもクイックリプライも使わない1通のテキスト（LINE に拒否されたときの再送用） */
+export function toTextMessages(replies: Reply[]): messagingApi.Message[] {
+  return [textMessage(replies.map((r) => r.text).join("\n\n"))];
+}
+
+/* ==================================================
+   クイックリプライとポストバック
+================================================== */
+
+// ポストバックの data は URL のクエリ形式（action=mealType&id=...&mealType=朝食）
+export type Postback =
+  | { action: "mealType"; id: string; date: string; mealType: string }
+  | { action: "undo"; kind: string; id: string; date: string }
+  | { action: "summary"; category: string };
+
+export function encodePostback(postback: Postback): string {
+  return new URLSearchParams(postback).toString();
+}
+
+export function parsePostback(data: string): Postback | null {
+  const params = new URLSearchParams(data);
+  const get = (key: string) => params.get(key) ?? "";
+  const action = get("action");
+  if (action === "mealType" && get("id") && get("date") && get("mealType")) {
+    return { action, id: get("id"), date: get("date"), mealType: get("mealType") };
+  }
+  if (action === "undo" && get("kind") && get("id") && get("date")) {
+    return { action, kind: get("kind"), id: get("id"), date: get("date") };
+  }
+  if (action === "summary" && get("category")) return { action, category: get("category") };
+  return null;
+}
+
+function postbackItem(label: string, postback: Postback): messagingApi.QuickReplyItem {
+  return { type: "action", action: { type: "postback", label, data: encodePostback(postback), displayText: label } };
+}
+
+const MEAL_TYPE_OPTIONS = ["朝食", "昼食", "夕食", "間食"];
+
+/** 食事の種類が分からなかったときの選択肢 */
+export function mealTypeItems(id: string, date: string): messagingApi.QuickReplyItem[] {
+  return MEAL_TYPE_OPTIONS.map((mealType) => postbackItem(mealType, { action: "mealType", id, date, mealType }));
+}
+
+/** 記録IDを指定して取り消す（date は記録を探す日付。食事は MealDate） */
+export function undoItem(kind: string, id: string, date: string): messagingApi.QuickReplyItem {
+  return postbackItem("取り消し", { action: "undo", kind, id, date });
+}
+
+/** 直前の記録の取り消し（記録IDが返ってこない処理用。テキストの「取り消し」と同じ） */
+export function undoLastItem(): messagingApi.QuickReplyItem {
+  return { type: "action", action: { type: "message", label: "取り消し", text: "取り消し" } };
+}
+
+export function weeklySummaryItem(category: string): messagingApi.QuickReplyItem {
+  return postbackItem("今週のサマリー", { action: "summary", category });
+}
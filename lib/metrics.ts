@@ -0,0 +1,458 @@
+// lib/metrics.ts
+import type { DateRange, LogStore, MetricLogRow, MetricValue } from "@/lib/logStore";
+import { addDays, eachDate, parseDurationMinutes, toLocalDate, toLocalTime } from "@/lib/dates";
+import { newEntryId, rememberEntry } from "@/lib/entries";
+
+/** ====== 型定義 ====== */
+
+export type MetricField = {
+  key: string;
+  label: string;
+  unit: string;
+  time?: boolean; // "HH:MM" の文字列として保存する項目（就寝・起床時刻）
+  daily: "sum" | "last" | "max"; // 1日に複数の記録があるときのまとめ方
+  target?: number; // 1日の目標（この値以上で達成）
+};
+
+/**
+ * 指標の定義。ここに追加すれば、記録・判定・サマリーに自動で反映される。
+ * Sheets では sheet のタブが見出し [Date, Time, Text, UserId, Id, ...fields の key] で自動的に作られる。
+ */
+export type MetricDefinition = {
+  kind: string;
+  label: string;
+  icon: string;
+  description: string; // 用件の分類（lib/intents.ts）でモデルに渡す説明
+  keywords: RegExp; // キーワード判定（モデルが使えないときのフォールバック）
+  sheet: string; // Sheets のタブ名
+  fields: readonly MetricField[];
+  trendField: string; // サマリーの推移グラフに使う項目
+  showChange?: boolean; // 前回・期間の初めからの増減を表示する（体重など）
+  parse: (text: string) => Record<string, MetricValue>; // 読み取れない項目は null
+  example: string; // 読み取れなかったときに返す書き方の例
+};
+
+/* ==================================================
+   本文の解釈に使う共通処理
+================================================== */
+
+function normalize(text: string): string {
+  return text
+    .replace(/[０-９．：，]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .toLowerCase();
+}
+
+function numberAfter(text: string, label: RegExp): number | null {
+  const m = text.match(new RegExp(`(?:${label.source})\\s*(?:は|:)?\\s*(\\d+(?:\\.\\d+)?)`));
+  return m ? parseFloat(m[1]) : null;
+}
+
+/** 「23時」「23:30」「6時半」「7時15分」を "HH:MM" に（直後に keyword が続くものだけ） */
+function timeBefore(text: string, keyword: RegExp): string | null {
+  const m = text.match(new RegExp(`(\\d{1,2})(?::(\\d{2})|時(?:(\\d{1,2})分|(半))?)\\s*(?:頃|ごろ|くらい)?\\s*(?:に)?\\s*(?:${keyword.source})`));
+  if (!m) return null;
+  const hour = Number(m[1]);
+  const minute = m[2] ? Number(m[2]) : m[3] ? Number(m[3]) : m[4] ? 30 : 0;
+  if (hour > 24 || minute > 59) return null;
+  return `${String(hour % 24).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function fromMinutes(minutes: number): string {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/* ==================================================
+   指標ごとの解釈
+================================================== */
+
+function parseWeight(userText: string): Record<string, MetricValue> {
+  const text = normalize(userText);
+  const kg = text.match(/(\d+(?:\.\d+)?)\s*(?:kg|キロ)/);
+  return {
+    weight: kg ? parseFloat(kg[1]) : numberAfter(text, /体重/),
+    bodyFat: numberAfter(text, /体脂肪率?/),
+  };
+}
+
+const SLEEP_QUALITY: [RegExp, number][] = [
+  [/全然眠れ|一睡も|最悪/, 1],
+  [/眠れなかった|浅かった|浅い|何度も起き|寝不足/, 2],
+  [/まあまあ|普通|ふつう/, 3],
+  [/よく眠れ|よく寝|ぐっすり|熟睡|スッキリ|すっきり/, 4],
+];
+
+/** 例: 「23時に寝て6時半に起きた」「23:30〜6:45 ぐっすり」「睡眠7時間 質4」 */
+function parseSleep(userText: string): Record<string, MetricValue> {
+  const text = normalize(userText);
+  let bedtime = timeBefore(text, /寝|就寝|布団|ベッド/);
+  let wake = timeBefore(text, /起き|起床|目覚め/);
+
+  const range = text.match(/(\d{1,2}):(\d{2})\s*(?:〜|~|～|-|から)\s*(\d{1,2}):(\d{2})/);
+  if (range && !bedtime && !wake) {
+    bedtime = `${range[1].padStart(2, "0")}:${range[2]}`;
+    wake = `${range[3].padStart(2, "0")}:${range[4]}`;
+  }
+
+  // 時間が書かれていれば優先し、無ければ就寝〜起床から計算する
+  let hours: number | null = null;
+  const explicit = /時間|hours?|\dh/.test(text) ? parseDurationMinutes(text) : null;
+  if (explicit !== null) hours = Math.round((explicit / 60) * 10) / 10;
+  else if (bedtime && wake) hours = Math.round((((toMinutes(wake) - toMinutes(bedtime) + 1440) % 1440) / 60) * 10) / 10;
+
+  const score = text.match(/質\s*(?:は|:)?\s*([1-5])/);
+  const quality = score ? Number(score[1]) : (SLEEP_QUALITY.find(([re]) => re.test(text))?.[1] ?? null);
+
+  return { bedtime, wake, hours, quality };
+}
+
+/** 例: 「水500ml」「水分1.5L」「コップ2杯」「ペットボトル1本」 */
+function parseWater(userText: string): Record<string, MetricValue> {
+  const text = normalize(userText);
+  const volume = text.match(/(\d+(?:\.\d+)?)\s*(ml|ミリリットル|cc|l|ℓ|リットル)(?![a-z])/);
+  if (volume) {
+    const liters = /^(?:l|ℓ|リットル)$/.test(volume[2]);
+    return { amount: Math.round(parseFloat(volume[1]) * (liters ? 1000 : 1)) };
+  }
+  const cups = text.match(/(\d+)\s*杯/);
+  if (cups) return { amount: Number(cups[1]) * 200 };
+  const bottles = text.match(/(\d+)\s*本/);
+  if (bottles) return { amount: Number(bottles[1]) * 500 };
+  return { amount: null };
+}
+
+function parseSteps(userText: string): Record<string, MetricValue> {
+  const text = normalize(userText).replace(/(\d),(\d)/g, "$1$2");
+  const steps = text.match(/(\d+)\s*歩/) ?? text.match(/歩数\s*(?:は|:)?\s*(\d+)/) ?? text.match(/(\d+)\s*steps?/);
+  return { steps: steps ? Number(steps[1]) : null };
+}
+
+function parseBody(userText: string): Record<string, MetricValue> {
+  const text = normalize(userText);
+  return {
+    waist: numberAfter(text, /ウエスト|腹囲|waist/),
+    hip: numberAfter(text, /ヒップ|hip/),
+    chest: numberAfter(text, /胸囲|バスト|chest/),
+    arm: numberAfter(text, /二の腕|上腕|arm/),
+    thigh: numberAfter(text, /太もも|太腿|thigh/),
+  };
+}
+
+/* ==================================================
+   レジストリ
+================================================== */
+
+export const METRICS = [
+  {
+    kind: "weight",
+    label: "体重",
+    icon: "⚖️",
+    description: "体重・体脂肪率の記録",
+    keywords: /体重|体脂肪/,
+    sheet: "Weight Log",
+    fields: [
+      { key: "weight", label: "体重", unit: "kg", daily: "last" },
+      { key: "bodyFat", label: "体脂肪率", unit: "%", daily: "last" },
+    ],
+    trendField: "weight",
+    showChange: true,
+    parse: parseWeight,
+    example: "「体重 65.2kg 体脂肪 18%」",
+  },
+  {
+    kind: "sleep",
+    label: "睡眠",
+    icon: "😴",
+    description: "睡眠の記録（就寝・起床時刻、睡眠時間、眠りの質）。昼寝は含めない",
+    keywords: /睡眠|就寝|起床|(?<!昼)寝た|(?<!昼)寝て.*起き|眠れ|sleep/,
+    sheet: "Sleep Log",
+    fields: [
+      { key: "bedtime", label: "就寝", unit: "", time: true, daily: "last" },
+      { key: "wake", label: "起床", unit: "", time: true, daily: "last" },
+      { key: "hours", label: "睡眠時間", unit: "時間", daily: "last", target: 7 },
+      { key: "quality", label: "眠りの質", unit: "/5", daily: "last" },
+    ],
+    trendField: "hours",
+    parse: parseSleep,
+    example: "「23時に寝て6時半に起きた ぐっすり」「睡眠7時間 質4」",
+  },
+  {
+    kind: "water",
+    label: "水分",
+    icon: "💧",
+    description: "水分補給の記録（水・お茶などの量）",
+    // 「水曜」「水餃子」「炭水化物」を拾わないように、「水」は量が続くときだけにする
+    keywords: /水分|水\s*を?\s*(?:\d|コップ)|water/,
+    sheet: "Water Log",
+    fields: [{ key: "amount", label: "水分", unit: "ml", daily: "sum", target: 2000 }],
+    trendField: "amount",
+    parse: parseWater,
+    example: "「水500ml」「水分1.5L」「コップ2杯」",
+  },
+  {
+    kind: "steps",
+    label: "歩数",
+    icon: "👣",
+    description: "1日の歩数の記録",
+    keywords: /歩数|\d\s*歩(?!い)|steps?/,
+    sheet: "Steps Log",
+    // 歩数計の値は累計なので、1日に何度送られても最大値を使う
+    fields: [{ key: "steps", label: "歩数", unit: "歩", daily: "max", target: 8000 }],
+    trendField: "steps",
+    parse: parseSteps,
+    example: "「今日は8500歩」「歩数 10,000」",
+  },
+  {
+    kind: "body",
+    label: "サイズ",
+    icon: "📏",
+    description: "ウエスト・ヒップ・胸囲・二の腕・太ももなどの採寸の記録",
+    keywords: /ウエスト|腹囲|ヒップ|胸囲|バスト|二の腕|太もも|太腿|採寸/,
+    sheet: "Body Log",
+    fields: [
+      { key: "waist", label: "ウエスト", unit: "cm", daily: "last" },
+      { key: "hip", label: "ヒップ", unit: "cm", daily: "last" },
+      { key: "chest", label: "胸囲", unit: "cm", daily: "last" },
+      { key: "arm", label: "二の腕", unit: "cm", daily: "last" },
+      { key: "thigh", label: "太もも", unit: "cm", daily: "last" },
+    ],
+    trendField: "waist",
+    showChange: true,
+    parse: parseBody,
+    example: "「ウエスト 78cm ヒップ 92cm」",
+  },
+] as const satisfies readonly MetricDefinition[];
+
+// 指標の種類（レジストリの kind から決まるので、指標を足すときに型を書き直す必要はない）
+export type MetricKind = (typeof METRICS)[number]["kind"];
+
+export const METRIC_KINDS: MetricKind[] = METRICS.map((m) => m.kind);
+
+export function getMetric(kind: MetricKind): MetricDefinition {
+  return METRICS.find((m) => m.kind === kind)!;
+}
+
+export function isMetricKind(value: unknown): value is MetricKind {
+  return METRICS.some((m) => m.kind === value);
+}
+
+/** キーワードで指標を判定（当てはまらなければ null） */
+export function detectMetricKind(userText: string): MetricKind | null {
+  const text = normalize(userText);
+  return METRICS.find((m) => m.keywords.test(text))?.kind ?? null;
+}
+
+/* ==================================================
+   行の変換
+================================================== */
+
+/** 行から項目の値を取り出す（シートの文字列は数値に戻す） */
+export function metricValues(def: MetricDefinition, row: MetricLogRow): Record<string, MetricValue> {
+  const values: Record<string, MetricValue> = {};
+  def.fields.forEach((field, i) => {
+    const raw = row[5 + i];
+    if (raw === null || raw === undefined || raw === "") values[field.key] = null;
+    else if (field.time) values[field.key] = String(raw);
+    else values[field.key] = Number.isFinite(Number(raw)) ? Number(raw) : null;
+  });
+  return values;
+}
+
+/** 列が足りない行やシートの文字列を MetricLogRow に揃える */
+export function normalizeMetricRow(def: MetricDefinition, row: unknown[]): MetricLogRow {
+  const base: [string, string, string, string, string] = [
+    String(row[0] ?? ""),
+    String(row[1] ?? ""),
+    String(row[2] ?? ""),
+    String(row[3] ?? ""),
+    String(row[4] ?? ""),
+  ];
+  const values = metricValues(def, row as MetricLogRow);
+  return [...base, ...def.fields.map((f) => values[f.key])];
+}
+
+function formatValue(field: MetricField, value: MetricValue): string {
+  if (value === null) return "-";
+  if (field.time) return String(value);
+  const n = Number(value);
+  return `${Number.isInteger(n) ? n.toLocaleString("ja-JP") : n}${field.unit ? ` ${field.unit}` : ""}`;
+}
+
+/* ==================================================
+   記録
+================================================== */
+
+/** 日ごとに項目の値をまとめる（項目ごとの daily のルールに従う） */
+function dailyValues(def: MetricDefinition, rows: MetricLogRow[]): Map<string, Record<string, MetricValue>> {
+  const byDate = new Map<string, Record<string, MetricValue>>();
+  const sorted = [...rows].sort((a, b) => `${a[0]} ${a[1]}`.localeCompare(`${b[0]} ${b[1]}`));
+  for (const row of sorted) {
+    const values = metricValues(def, row);
+    const day = byDate.get(row[0]) ?? {};
+    for (const field of def.fields) {
+      const value = values[field.key];
+      if (value === null) continue;
+      const prev = day[field.key];
+      if (prev === null || prev === undefined || field.daily === "last") day[field.key] = value;
+      else if (field.daily === "sum") day[field.key] = Math.round((Number(prev) + Number(value)) * 10) / 10;
+      else day[field.key] = Math.max(Number(prev), Number(value));
+    }
+    byDate.set(row[0], day);
+  }
+  return byDate;
+}
+
+// 「前回から」を出すときに遡る日数（これより前の記録しか無ければ比べない）
+const CHANGE_LOOKBACK_DAYS = 90;
+
+/** ====== 指標を記録し、返信テキストを返す ====== */
+export async function logMetric(
+  store: LogStore,
+  {
+    userId,
+    at,
+    kind,
+    text,
+    id = newEntryId(),
+  }: { userId: string; at: Date; kind: MetricKind; text: string; id?: string }
+): Promise<string> {
+  const def = getMetric(kind);
+  const values = def.parse(text);
+  if (def.fields.every((f) => values[f.key] === null || values[f.key] === undefined)) {
+    return `${def.label}の値を読み取れませんでした🙏 ${def.example} のように送ってください。`;
+  }
+
+  const date = toLocalDate(at);
+  // 前回との比較用に、追加する前の直近の記録を取っておく（再送で同じ記録が既にあればそれは除く）
+  const previous = def.showChange
+    ? (await store.getMetricLogsByRange(kind, userId, addDays(date, -CHANGE_LOOKBACK_DAYS), date)).filter(
+        (row) => row[4] !== id
+      )
+    : [];
+  await store.appendMetricLog(kind, [
+    date,
+    toLocalTime(at),
+    text,
+    userId,
+    id,
+    ...def.fields.map((f) => values[f.key] ?? null),
+  ]);
+  await rememberEntry(store, { userId, kind, id, date });
+
+  const lines = def.fields
+    .filter((f) => values[f.key] !== null && values[f.key] !== undefined)
+    .map((f) => `${f.label}: ${formatValue(f, values[f.key])}`);
+
+  if (def.showChange) {
+    const trend = def.fields.find((f) => f.key === def.trendField)!;
+    const last = [...previous]
+      .sort((a, b) => `${a[0]} ${a[1]}`.localeCompare(`${b[0]} ${b[1]}`))
+      .map((row) => metricValues(def, row)[trend.key])
+      .filter((v) => v !== null)
+      .pop();
+    const current = values[trend.key];
+    if (last !== undefined && current !== null && current !== undefined) {
+      const diff = Math.round((Number(current) - Number(last)) * 10) / 10;
+      lines.push(`前回から ${diff > 0 ? "+" : ""}${diff} ${trend.unit}`);
+    }
+  }
+
+  // 合計・最大で見る項目は今日の値と目標を添える
+  const targetFields = def.fields.filter((f) => f.target !== undefined && values[f.key] !== null);
+  if (targetFields.length > 0) {
+    const today = dailyValues(def, await store.getMetricLogsByRange(kind, userId, date, date)).get(date) ?? {};
+    for (const f of targetFields) {
+      const value = Number(today[f.key] ?? 0);
+      lines.push(`今日の${f.label}: ${formatValue(f, value)}（目標 ${formatValue(f, f.target!)} の ${Math.round((value / f.target!) * 100)}%）`);
+    }
+  }
+
+  return `${def.icon} ${def.label}を記録しました\n${lines.join("\n")}`;
+}
+
+/* ==================================================
+   サマリー
+================================================== */
+
+const SPARK = "▁▂▃▄▅▆▇█";
+// 推移グラフに並べる最大の日数（新しい方から）
+const TREND_POINTS = 31;
+
+/** 日ごとの値を1文字ずつのバーで並べる（記録の無い日は空白） */
+function sparkline(dates: string[], values: Map<string, number>): string {
+  const known = [...values.values()];
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return dates
+    .slice(-TREND_POINTS)
+    .map((d) => {
+      const v = values.get(d);
+      if (v === undefined) return " ";
+      if (max === min) return SPARK[3];
+      return SPARK[Math.round(((v - min) / (max - min)) * (SPARK.length - 1))];
+    })
+    .join("");
+}
+
+/** 時刻の平均（日付をまたぐ就寝時刻のため、昼をまたいでいれば午前を翌日として扱う） */
+function averageTime(times: string[]): string {
+  const minutes = times.map(toMinutes);
+  const crossesMidnight = minutes.some((m) => m < 720) && minutes.some((m) => m >= 720);
+  const shifted = minutes.map((m) => (crossesMidnight && m < 720 ? m + 1440 : m));
+  return fromMinutes(shifted.reduce((a, b) => a + b, 0) / shifted.length);
+}
+
+export async function buildMetricSummary(
+  store: LogStore,
+  userId: string,
+  kind: MetricKind,
+  range: DateRange
+): Promise<string> {
+  const def = getMetric(kind);
+  const rows = await store.getMetricLogsByRange(kind, userId, range.start, range.end);
+  if (rows.length === 0) return "その期間の記録はありません📭";
+
+  const byDate = dailyValues(def, rows);
+  const dates = [...byDate.keys()].sort();
+  const start = range.start === "ALL" ? dates[0] : range.start;
+  const end = range.end === "ALL" ? dates[dates.length - 1] : range.end;
+
+  const lines: string[] = [];
+  for (const field of def.fields) {
+    const daily = dates.map((d) => byDate.get(d)![field.key]).filter((v): v is number | string => v !== null && v !== undefined);
+    if (daily.length === 0) continue;
+
+    if (field.time) {
+      lines.push(`${field.label}: 平均 ${averageTime(daily.map(String))}`);
+      continue;
+    }
+    const numbers = daily.map(Number);
+    const avg = Math.round((numbers.reduce((a, b) => a + b, 0) / numbers.length) * 10) / 10;
+    let line = `${field.label}: 平均 ${formatValue(field, avg)}（最小 ${formatValue(field, Math.min(...numbers))}・最大 ${formatValue(field, Math.max(...numbers))}）`;
+    if (def.showChange && numbers.length >= 2) {
+      const diff = Math.round((numbers[numbers.length - 1] - numbers[0]) * 10) / 10;
+      line += `\n  期間の変化: ${diff > 0 ? "+" : ""}${diff} ${field.unit}`;
+    }
+    if (field.target !== undefined) {
+      const achieved = numbers.filter((n) => n >= field.target!).length;
+      line += `\n  目標 ${formatValue(field, field.target)} 達成: ${achieved} / ${numbers.length} 日`;
+    }
+    lines.push(line);
+  }
+
+  const trend = def.fields.find((f) => f.key === def.trendField)!;
+  const trendValues = new Map<string, number>();
+  for (const d of dates) {
+    const v = byDate.get(d)![trend.key];
+    if (v !== null && v !== undefined) trendValues.set(d, Number(v));
+  }
+  const allDates = range.start === "ALL" ? dates : eachDate(start, end);
+  const graph = trendValues.size >= 2 ? `\n\n${trend.label}の推移\n${sparkline(allDates, trendValues)}` : "";
+
+  return `${start} 〜 ${end} の${def.label}サマリー${def.icon}\n記録: ${dates.length} 日\n${lines.join("\n")}${graph}`;
+}
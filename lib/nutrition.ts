@@ -0,0 +1,225 @@
+// lib/nutrition.ts
+import { callOpenAIWithRetry, type ChatMessage } from "@/lib/openai";
+import type { MessageContent } from "@/lib/line";
+
+/** ====== 型定義 ====== */
+
+export type NutrientKey =
+  | "kcal"
+  | "protein"
+  | "fat"
+  | "carbs"
+  | "vitaminB6"
+  | "vitaminD"
+  | "magnesium"
+  | "iron"
+  | "zinc";
+
+export type Nutrients = Record<NutrientKey, number>;
+
+// 食品 1 品ごとの推定結果
+export type NutritionItem = Nutrients & {
+  name: string;
+  portion: string; // 推定量（例: "1杯 150g"）
+};
+
+export type NutritionEstimate = {
+  items: NutritionItem[];
+  total: Nutrients;
+};
+
+/** 栄養素の表示名・単位と、1品あたりの妥当な上限値（これを超えたら推定ミスとみなす） */
+export const NUTRIENTS: { key: NutrientKey; label: string; unit: string; maxPerItem: number }[] = [
+  { key: "kcal", label: "カロリー", unit: "kcal", maxPerItem: 3000 },
+  { key: "protein", label: "タンパク質", unit: "g", maxPerItem: 200 },
+  { key: "fat", label: "脂質", unit: "g", maxPerItem: 250 },
+  { key: "carbs", label: "炭水化物", unit: "g", maxPerItem: 500 },
+  { key: "vitaminB6", label: "ビタミンB6", unit: "mg", maxPerItem: 10 },
+  { key: "vitaminD", label: "ビタミンD", unit: "μg", maxPerItem: 100 },
+  { key: "magnesium", label: "マグネシウム", unit: "mg", maxPerItem: 1000 },
+  { key: "iron", label: "鉄", unit: "mg", maxPerItem: 50 },
+  { key: "zinc", label: "亜鉛", unit: "mg", maxPerItem: 50 },
+];
+
+export function emptyNutrients(): Nutrients {
+  return { kcal: 0, protein: 0, fat: 0, carbs: 0, vitaminB6: 0, vitaminD: 0, magnesium: 0, iron: 0, zinc: 0 };
+}
+
+export function sumNutrients(list: Nutrients[]): Nutrients {
+  const total = emptyNutrients();
+  for (const n of list) {
+    for (const { key } of NUTRIENTS) total[key] += n[key];
+  }
+  for (const { key } of NUTRIENTS) total[key] = Math.round(total[key] * 10) / 10;
+  return total;
+}
+
+/** ====== 推定失敗 ====== */
+export class NutritionEstimateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NutritionEstimateError";
+  }
+}
+
+/** ====== 数値の正規化 ======
+ * 数値・"350"・"300〜400 kcal"・"約12g" などを受け付け、範囲は中央値にする。
+ * "-50" のような負の値は符号を残して返し、検証（validateEstimate）で範囲外として弾く
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  const text = value
+    .replace(/[０-９．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[−－]/g, "-")
+    .replace(/,/g, "");
+  // 数字の直後でない "-" は範囲の区切りではなく符号
+  const range = text.match(/((?<![\d.])-?\d+(?:\.\d+)?)\s*(?:〜|~|～|-|–|ー|から)\s*(-?\d+(?:\.\d+)?)/);
+  if (range) {
+    const [low, high] = [parseFloat(range[1]), parseFloat(range[2])];
+    // 負の値を含む範囲は中央値にすると正になりうるので、負の方をそのまま返す
+    return low < 0 || high < 0 ? Math.min(low, high) : (low + high) / 2;
+  }
+
+  const single = text.match(/(?<![\d.])-?\d+(?:\.\d+)?/);
+  return single ? parseFloat(single[0]) : null;
+}
+
+/** ====== モデル出力の検証 ======
+ * allowEmpty は写真用（食べ物が写っていないときの {"items":[]} を正しい答えとして受け取る）
+ */
+function validateEstimate(raw: unknown, allowEmpty = false): { estimate?: NutritionEstimate; errors: string[] } {
+  const errors: string[] = [];
+  const rawItems = (raw as { items?: unknown })?.items;
+  if (!Array.isArray(rawItems) || (rawItems.length === 0 && !allowEmpty)) {
+    return { errors: ["items must be a non-empty array"] };
+  }
+
+  const items: NutritionItem[] = rawItems.map((rawItem: Record<string, unknown>, i) => {
+    const name = typeof rawItem?.name === "string" ? rawItem.name.trim() : "";
+    if (!name) errors.push(`items[${i}].name is missing`);
+
+    const item = { name, portion: typeof rawItem?.portion === "string" ? rawItem.portion.trim() : "", ...emptyNutrients() };
+    for (const { key, maxPerItem } of NUTRIENTS) {
+      const amount = parseAmount(rawItem?.[key]);
+      if (amount === null) {
+        errors.push(`items[${i}].${key} is missing or not a number`);
+      } else if (amount < 0 || amount > maxPerItem) {
+        errors.push(`items[${i}].${key}=${amount} is out of range (0〜${maxPerItem})`);
+      } else {
+        item[key] = Math.round(amount * 10) / 10;
+      }
+    }
+    return item;
+  });
+
+  if (errors.length > 0) return { errors };
+  return { estimate: { items, total: sumNutrients(items) }, errors };
+}
+
+const SYSTEM_PROMPT =
+  "あなたは管理栄養士です。ユーザーが食べた食事について、USDAのデータベースを参照し、食品ごとにおおよその量と栄養素を推定してください。\n" +
+  "次の形式の JSON のみを出力してください。数値は単位を付けない数値で、幅がある場合は代表値にしてください。\n" +
+  '{"items":[{"name":"食品名","portion":"推定量（例: 1杯 150g）","kcal":0,"protein":0,"fat":0,"carbs":0,' +
+  '"vitaminB6":0,"vitaminD":0,"magnesium":0,"iron":0,"zinc":0}]}\n' +
+  "単位: kcal=kcal, protein/fat/carbs=g, vitaminB6/magnesium/iron/zinc=mg, vitaminD=μg";
+
+const IMAGE_PROMPT =
+  "写真に写っている料理・食品をすべて特定し、見た目から量を推定してください。" +
+  "食べ物が写っていない場合は {\"items\":[]} を出力してください。";
+
+/** ====== 食事内容から栄養素を推定（不正な出力は1回だけ再試行） ====== */
+export async function estimateNutrition(
+  mealText: string,
+  { maxAttempts = 2 }: { maxAttempts?: number } = {}
+): Promise<NutritionEstimate> {
+  return runEstimate(
+    [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: mealText },
+    ],
+    maxAttempts
+  );
+}
+
+/** ====== 食事の写真から栄養素を推定（食べ物が写っていなければ items が空の推定を返す） ====== */
+export async function estimateNutritionFromImage(
+  image: MessageContent,
+  { maxAttempts = 2 }: { maxAttempts?: number } = {}
+): Promise<NutritionEstimate> {
+  const url = `data:${image.contentType};base64,${image.data.toString("base64")}`;
+  return runEstimate(
+    [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: IMAGE_PROMPT },
+          { type: "image_url", image_url: { url, detail: "low" } },
+        ],
+      },
+    ],
+    maxAttempts,
+    { allowEmpty: true }
+  );
+}
+
+/** ====== 推定モデルの差し替え口 ====== */
+export interface NutritionEstimator {
+  fromText(mealText: string): Promise<NutritionEstimate>;
+  // 食べ物が写っていなければ items が空
+  fromImage(image: MessageContent): Promise<NutritionEstimate>;
+}
+
+export const openAINutritionEstimator: NutritionEstimator = {
+  fromText: (mealText) => estimateNutrition(mealText),
+  fromImage: (image) => estimateNutritionFromImage(image),
+};
+
+async function runEstimate(
+  messages: ChatMessage[],
+  maxAttempts: number,
+  { allowEmpty = false }: { allowEmpty?: boolean } = {}
+): Promise<NutritionEstimate> {
+  let lastErrors: string[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const res = await callOpenAIWithRetry(messages, { maxRetries: 1, max_tokens: 800, temperature: 0.2, json: true });
+    const content = res.choices?.[0]?.message?.content ?? "";
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      lastErrors = ["output is not valid JSON"];
+    }
+    if (parsed !== undefined) {
+      const { estimate, errors } = validateEstimate(parsed, allowEmpty);
+      if (estimate) return estimate;
+      lastErrors = errors;
+    }
+
+    console.warn("[NUTRITION][INVALID]", attempt, lastErrors.join("; "));
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: `出力に問題があります: ${lastErrors.join("; ")}\n形式どおりの JSON で出力し直してください。` }
+    );
+  }
+
+  throw new NutritionEstimateError(lastErrors.join("; "));
+}
+
+/** ====== 返信用のテキスト ====== */
+export function formatNutrients(n: Nutrients): string {
+  return NUTRIENTS.map(({ key, label, unit }) => `${label}: ${n[key]} ${unit}`).join("\n");
+}
+
+export function formatItems(estimate: NutritionEstimate): string {
+  return estimate.items
+    .map((item) => `・${item.name}${item.portion ? `（${item.portion}）` : ""} ${item.kcal} kcal`)
+    .join("\n");
+}
+
+export function formatEstimate(estimate: NutritionEstimate): string {
+  return `${formatItems(estimate)}\n\n${formatNutrients(estimate.total)}`;
+}
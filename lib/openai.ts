@@ -0,0 +1,98 @@
+// lib/openai.ts
+import { AsyncLocalStorage } from "async_hooks";
+import OpenAI from "openai";
+
+// OpenAI の ChatCompletion 型を定義
+export type ChatCompletion = OpenAI.Chat.Completions.ChatCompletion;
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: "auto" | "low" | "high" } };
+export type ChatMessage =
+  | { role: "system" | "assistant"; content: string }
+  | { role: "user"; content: string | ChatContentPart[] };
+
+/** ====== モデル呼び出しの差し替え口 ======
+ * 分類・栄養推定・コーチ・フィードバックなど、モデルの呼び出しはすべて callOpenAIWithRetry を通る。
+ * withLlmClient の中から呼ばれたときだけ、渡した LLM（シミュレーターの台本つきの偽物など）を使う
+ */
+export type CompletionOptions = { temperature: number; max_tokens: number; json: boolean };
+
+export interface LlmClient {
+  complete(messages: ChatMessage[], options: CompletionOptions): Promise<ChatCompletion>;
+}
+
+// API キーが無くても読み込めるように、最初に使うときに作る
+let client: OpenAI | null = null;
+
+export function getOpenAIClient(): OpenAI {
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
+
+export const openAILlmClient: LlmClient = {
+  complete(messages, { temperature, max_tokens, json }) {
+    return getOpenAIClient().chat.completions.create({
+      model: "gpt-4o-mini",
+      messages,
+      temperature,
+      max_tokens,
+      ...(json ? { response_format: { type: "json_object" as const } } : {}),
+    });
+  },
+};
+
+const llmScope = new AsyncLocalStorage<LlmClient>();
+
+export function withLlmClient<T>(llm: LlmClient, fn: () => Promise<T>): Promise<T> {
+  return llmScope.run(llm, fn);
+}
+
+/** ====== OpenAI 呼び出し（429/5xxリトライ付き） ====== */
+export async function callOpenAIWithRetry(
+  messages: ChatMessage[],
+  {
+    maxRetries = 2,
+    temperature = 0.6,
+    max_tokens = 250,
+    json = false,
+  }: { maxRetries?: number; temperature?: number; max_tokens?: number; json?: boolean } = {}
+): Promise<ChatCompletion> {
+  let attempt = 0;
+  let lastErr: unknown;
+  while (attempt <= maxRetries) {
+    try {
+      const llm = llmScope.getStore() ?? openAILlmClient;
+      const resp = await llm.complete(messages, { temperature, max_tokens, json });
+      return resp;
+    } catch (e: unknown) {
+      lastErr = e;
+
+      let status: number | undefined;
+      if (typeof e === "object" && e !== null) {
+        if ("status" in e && typeof (e as { status: unknown }).status === "number") {
+          status = (e as { status: number }).status;
+        } else if (
+          "response" in e &&
+          typeof (e as { response: { status?: number } }).response?.status === "number"
+        ) {
+          status = (e as { response: { status?: number } }).response.status;
+        }
+      }
+
+      const isRateOrQuota = status === 429;
+      const isRetryable = isRateOrQuota || (status !== undefined && status >= 500);
+
+      if (e instanceof Error) {
+        console.error("[OPENAI][ERROR]", status, e.message);
+      } else {
+        console.error("[OPENAI][ERROR]", status, e);
+      }
+
+      if (!isRetryable || attempt === maxRetries) break;
+      const delayMs = Math.min(500 * Math.pow(2, attempt), 2500);
+      await new Promise((r) => setTimeout(r, delayMs));
+      attempt++;
+    }
+  }
+  throw lastErr;
+}
@@ -0,0 +1,81 @@
+// lib/profile.ts
+import type { ActivityLevel, Goal, ProfileRow, Sex } from "@/lib/logStore";
+
+const SEX_LABEL: Record<Sex, string> = { male: "男性", female: "女性" };
+const ACTIVITY_LABEL: Record<ActivityLevel, string> = { low: "低い", moderate: "ふつう", high: "高い" };
+const GOAL_LABEL: Record<Goal, string> = { cut: "減量", maintain: "維持", gain: "増量" };
+
+/** ====== プロフィール設定コマンドの判定 ======
+ * 例: 「プロフィール 35歳 女性 55kg 活動量ふつう 減量」
+ * 「プロフィール」で始まらなければ null。項目は一部だけでもよい。
+ */
+export type ProfileCommand = {
+  age?: number;
+  sex?: Sex;
+  weight?: number;
+  activity?: ActivityLevel;
+  goal?: Goal;
+};
+
+export function parseProfileCommand(userText: string): ProfileCommand | null {
+  const text = userText
+    .replace(/[０-９．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .toLowerCase();
+  if (!text.startsWith("プロフィール") && !text.startsWith("profile")) return null;
+
+  const cmd: ProfileCommand = {};
+
+  const age = text.match(/(\d{1,3})\s*(?:歳|才)/);
+  if (age) cmd.age = Number(age[1]);
+
+  if (/女性|女|female/.test(text)) cmd.sex = "female";
+  else if (/男性|男|male/.test(text)) cmd.sex = "male";
+
+  const weight = text.match(/(\d{2,3}(?:\.\d+)?)\s*(?:kg|キロ)/);
+  if (weight) cmd.weight = Number(weight[1]);
+
+  if (/活動量?\s*[:：]?\s*(?:低|少な)|low/.test(text)) cmd.activity = "low";
+  else if (/活動量?\s*[:：]?\s*(?:高|多|活発)|high/.test(text)) cmd.activity = "high";
+  else if (/活動量?\s*[:：]?\s*(?:ふつう|普通|中)|moderate/.test(text)) cmd.activity = "moderate";
+
+  if (/減量|ダイエット|cut/.test(text)) cmd.goal = "cut";
+  else if (/増量|バルク|gain/.test(text)) cmd.goal = "gain";
+  else if (/維持|maintain/.test(text)) cmd.goal = "maintain";
+
+  return cmd;
+}
+
+/** 既存のプロフィールにコマンドの項目を上書きする（必須項目が揃わなければ null） */
+export function mergeProfile(
+  userId: string,
+  existing: ProfileRow | null,
+  cmd: ProfileCommand,
+  now: Date
+): ProfileRow | null {
+  const age = cmd.age ?? existing?.[1];
+  const sex = cmd.sex ?? existing?.[2];
+  const weight = cmd.weight ?? existing?.[3];
+  if (!age || !sex || !weight) return null;
+
+  return [
+    userId,
+    age,
+    sex,
+    weight,
+    cmd.activity ?? existing?.[4] ?? "moderate",
+    cmd.goal ?? existing?.[5] ?? "maintain",
+    now.toISOString(),
+  ];
+}
+
+export function formatProfile(profile: ProfileRow): string {
+  const [, age, sex, weight, activity, goal] = profile;
+  return `${age}歳・${SEX_LABEL[sex]}・${weight}kg・活動量${ACTIVITY_LABEL[activity]}・目標: ${GOAL_LABEL[goal]}`;
+}
+
+export const PROFILE_HINT = "プロフィールを設定すると、目標に対する達成度をお知らせします📝";
+
+export const PROFILE_USAGE =
+  `${PROFILE_HINT}\n` +
+  "例: 「プロフィール 35歳 女性 55kg 活動量ふつう 減量」\n" +
+  "（活動量: 低い / ふつう / 高い、目標: 減量 / 維持 / 増量）";
@@ -0,0 +1,136 @@
+// lib/reminders.ts
+import type { LogStore, ReminderCategory, UserRow } from "@/lib/logStore";
+import { localHour, toLocalDate } from "@/lib/dates";
+
+/** ====== 既定値 ====== */
+export const DEFAULT_REMINDER_TIMES = ["07:00", "21:00"];
+export const REMINDER_CATEGORIES: ReminderCategory[] = ["meal", "exercise", "meditation", "journal"];
+
+const CATEGORY_LABEL: Record<ReminderCategory, string> = {
+  meal: "食事",
+  exercise: "運動",
+  meditation: "瞑想",
+  journal: "ジャーナル",
+};
+
+/** 列が足りない古い行をリマインダーの既定値で補う */
+export function normalizeUserRow(row: Partial<UserRow>): UserRow {
+  return [
+    row[0] ?? "",
+    row[1] ?? "",
+    row[2] === "unfollowed" ? "unfollowed" : "active",
+    row[3] ?? true,
+    row[4] ?? "",
+    row[5] ?? "",
+    row[6] && row[6].length > 0 ? row[6] : DEFAULT_REMINDER_TIMES,
+    row[7] && row[7].length > 0 ? row[7] : REMINDER_CATEGORIES,
+  ];
+}
+
+/* ==================================================
+   チャットからの設定コマンド
+================================================== */
+
+export type ReminderCommand =
+  | { kind: "optIn"; optIn: boolean }
+  | { kind: "times"; times: string[] }
+  | { kind: "categories"; categories: ReminderCategory[] }
+  | { kind: "show" };
+
+/**
+ * 例: 「リマインダー停止」「リマインダー再開」「リマインダーを21時に変更」「リマインダーを7時と21時に」
+ * 「リマインダーの項目を食事と瞑想に」「リマインダー設定」
+ * 時刻は1時間単位（cron が毎時0分に動くため、分は切り捨て）
+ */
+export function parseReminderCommand(userText: string): ReminderCommand | null {
+  const text = userText.replace(/[０-９：]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0));
+  if (!text.includes("リマインダー")) return null;
+
+  if (text.includes("停止") || text.includes("オフ") || text.includes("止めて")) return { kind: "optIn", optIn: false };
+  if (text.includes("再開") || text.includes("オン")) return { kind: "optIn", optIn: true };
+
+  const times = [...text.matchAll(/(\d{1,2})\s*(?:時|:\d{2})/g)]
+    .map((m) => Number(m[1]))
+    .filter((h) => h >= 0 && h <= 23)
+    .map((h) => `${String(h).padStart(2, "0")}:00`);
+  if (times.length > 0) return { kind: "times", times: [...new Set(times)].sort() };
+
+  const categories = REMINDER_CATEGORIES.filter((c) => {
+    if (c === "meal") return /食事|ごはん|ご飯/.test(text);
+    return text.includes(CATEGORY_LABEL[c]);
+  });
+  if (categories.length > 0) return { kind: "categories", categories };
+
+  if (text.includes("設定") || text.trim() === "リマインダー") return { kind: "show" };
+  return null;
+}
+
+export function formatReminderSettings(user: UserRow): string {
+  const [, , , optIn, , , times, categories] = user;
+  return (
+    `リマインダー: ${optIn ? "ON⏰" : "OFF🔕"}\n` +
+    `時刻: ${times.join("、")}\n` +
+    `項目: ${categories.map((c) => CATEGORY_LABEL[c]).join("、")}\n\n` +
+    "変更例: 「リマインダーを21時に変更」「リマインダーの項目を食事と瞑想に」「リマインダー停止」"
+  );
+}
+
+/* ==================================================
+   送信判定とメッセージ作成
+================================================== */
+
+/** 今の時（ユーザーのタイムゾーン）がリマインダー時刻に当たるか */
+export function isReminderDue(user: UserRow, now: Date): boolean {
+  const hour = localHour(now);
+  return user[6].some((t) => Number(t.split(":")[0]) === hour);
+}
+
+// その時刻までに済んでいるはずの食事（時 → 食事の種類）
+const MEAL_DUE_HOUR: [string, number][] = [
+  ["朝食", 9],
+  ["昼食", 14],
+  ["夕食", 20],
+];
+
+/**
+ * 今日の記録を確認して、まだのものを知らせるメッセージを作る。
+ * 全部記録済みなら null（送信しない）。
+ */
+export async function buildReminderMessage(store: LogStore, user: UserRow, now: Date): Promise<string | null> {
+  const [userId, , , , , , , categories] = user;
+  const today = toLocalDate(now);
+  const hour = localHour(now);
+
+  const missing: string[] = [];
+  const praise: string[] = [];
+
+  if (categories.includes("meal")) {
+    const meals = await store.getMealLogsByDate(userId, today);
+    const loggedTypes = new Set(meals.map((row) => row[3]));
+    const dueMeals = MEAL_DUE_HOUR.filter(([, dueHour]) => hour >= dueHour).map(([type]) => type);
+    const missingMeals = dueMeals.filter((type) => !loggedTypes.has(type));
+    missing.push(...missingMeals);
+    if (dueMeals.length === 3 && missingMeals.length === 0) praise.push("今日は3食とも記録済み、素晴らしい✨");
+  }
+
+  const sessionChecks: [ReminderCategory, () => Promise<unknown[]>][] = [
+    ["exercise", () => store.getExerciseLogsByRange(userId, today, today)],
+    ["meditation", () => store.getMeditationLogsByRange(userId, today, today)],
+    ["journal", () => store.getJournalLogsByRange(userId, today, today)],
+  ];
+  for (const [category, fetchRows] of sessionChecks) {
+    if (!categories.includes(category)) continue;
+    const rows = await fetchRows();
+    if (rows.length === 0) missing.push(CATEGORY_LABEL[category]);
+  }
+
+  if (missing.length === 0) return null;
+
+  const list = missing.join(missing.length <= 2 ? "と" : "・");
+  if (hour < 12) {
+    return `🌅 おはようございます！今日も${list}を記録しましょう📝`;
+  }
+  const greeting = hour < 18 ? "📌 こんにちは！" : "🌙 1日お疲れさまでした！";
+  const praiseText = praise.length > 0 ? `${praise.join("\n")}\n` : "";
+  return `${greeting}\n${praiseText}${list}がまだです。記録してみましょう📝`;
+}
@@ -0,0 +1,44 @@
+// lib/session.ts
+import crypto from "crypto";
+import { cookies } from "next/headers";
+
+/* ==================================================
+   ダッシュボードのログインセッション
+   Cookie の値: userId.有効期限(ミリ秒).署名（SESSION_SECRET による HMAC-SHA256）
+================================================== */
+
+export const SESSION_COOKIE = "hh_session";
+export const SESSION_MAX_AGE_SEC = 60 * 60 * 24 * 7;
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is not set");
+  return secret;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac("sha256", sessionSecret()).update(payload).digest("base64url");
+}
+
+export function createSessionToken(userId: string, now = new Date()): string {
+  const payload = `${userId}.${now.getTime() + SESSION_MAX_AGE_SEC * 1000}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/** 署名と有効期限を確かめて userId を返す（不正・期限切れなら null） */
+export function verifySessionToken(token: string, now = new Date()): string | null {
+  const [userId, expiresAt, signature] = token.split(".");
+  if (!userId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  if (Number(expiresAt) < now.getTime()) return null;
+  return userId;
+}
+
+/** ====== サーバーコンポーネントからログイン中の userId を取得（未ログインなら null） ====== */
+export async function getSessionUserId(): Promise<string | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? verifySessionToken(token) : null;
+}
@@ -0,0 +1,217 @@
+// lib/sheetSchema.ts
+import { METRICS } from "@/lib/metrics";
+
+/* ==================================================
+   スプレッドシートのタブと列の定義
+   列は見出し（1行目）の名前で探すので、シートの列の並びは自由に変えてよい。
+   ここでの並びは lib/logStore.ts の行の型（MealLogRow など）の並びと同じにすること
+================================================== */
+
+const NUTRIENT_COLUMNS = [
+  "kcal",
+  "Protein",
+  "Fat",
+  "Carbs",
+  "VitaminB6",
+  "VitaminD",
+  "Magnesium",
+  "Iron",
+  "Zinc",
+];
+const SIMPLE_LOG_COLUMNS = ["Date", "Time", "Text", "UserId", "Id"];
+
+export const SHEET_TABS: Record<string, string[]> = {
+  "Meal Log": ["Date", "Time", "MealDate", "MealType", "Input", ...NUTRIENT_COLUMNS, "UserId", "Id"],
+  "Meal Item Log": [
+    "Date",
+    "Time",
+    "MealDate",
+    "MealType",
+    "ItemName",
+    "Portion",
+    ...NUTRIENT_COLUMNS,
+    "UserId",
+    "MealId",
+  ],
+  "Exercise Log": [
+    ...SIMPLE_LOG_COLUMNS,
+    "Activity",
+    "DurationMin",
+    "DistanceKm",
+    "Sets",
+    "Reps",
+    "WeightKg",
+    "Intensity",
+    "Kcal",
+  ],
+  "Meditation Log": [...SIMPLE_LOG_COLUMNS, "Technique", "DurationMin", "StartedAt", "EndedAt"],
+  "Journal Log": [...SIMPLE_LOG_COLUMNS, "Mood", "Emotions", "Tags"],
+  ...Object.fromEntries(METRICS.map((def) => [def.sheet, [...SIMPLE_LOG_COLUMNS, ...def.fields.map((f) => f.key)]])),
+  "Meditation Sessions": ["UserId", "StartedAt", "Technique"],
+  Conversations: ["UserId", "At", "Role", "Content"],
+  "Recent Entries": ["UserId", "At", "Kind", "Id", "Date"],
+  "Webhook Events": ["WebhookEventId", "ReceivedAt", "UserId", "ClaimId"],
+  Users: [
+    "UserId",
+    "DisplayName",
+    "Status",
+    "ReminderOptIn",
+    "FollowedAt",
+    "UpdatedAt",
+    "ReminderTimes",
+    "ReminderCategories",
+  ],
+  Profiles: ["UserId", "Age", "Sex", "WeightKg", "ActivityLevel", "Goal", "UpdatedAt"],
+  // 適用済みのマイグレーション（Version の最大値が今のスキーマのバージョン）
+  "Schema Migrations": ["Version", "Description", "AppliedAt"],
+};
+
+// 手で付けた見出しの別名（栄養素は略称や日本語の表示名でもよい）
+const HEADER_ALIASES: Record<string, string[]> = {
+  kcal: ["カロリー", "Calories"],
+  Protein: ["タンパク質"],
+  Fat: ["脂質"],
+  Carbs: ["炭水化物"],
+  VitaminB6: ["B6", "ビタミンB6"],
+  VitaminD: ["D", "ビタミンD"],
+  Magnesium: ["Mg", "マグネシウム"],
+  Iron: ["Fe", "鉄"],
+  Zinc: ["Zn", "亜鉛"],
+};
+
+/** 見出しの比較用（大文字小文字・空白・記号の違いは無視する） */
+function headerKey(name: string): string {
+  return name.normalize("NFKC").toLowerCase().replace(/[\s_\-()]/g, "");
+}
+
+/* ==================================================
+   見出しと列の対応
+================================================== */
+
+// positions[i] は定義の i 番目の列がシートの何列目（0始まり）にあるか。width はシートの見出しの列数
+export type SheetLayout = { tab: string; width: number; positions: number[] };
+
+export class SheetSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SheetSchemaError";
+  }
+}
+
+/** 見出しの中でその列に当たる位置（0始まり）をすべて返す */
+function columnPositions(header: string[], column: string): number[] {
+  const names = new Set([column, ...(HEADER_ALIASES[column] ?? [])].map(headerKey));
+  return header.flatMap((name, i) => (names.has(headerKey(String(name ?? ""))) ? [i] : []));
+}
+
+/** 見出しの中でその列がある位置（無ければ -1） */
+export function findColumn(header: string[], column: string): number {
+  return columnPositions(header, column)[0] ?? -1;
+}
+
+/** 1行目の見出しから列の対応を作る。必要な列が無い・同じ列が2つあるときは SheetSchemaError */
+export function mapHeader(tab: string, header: string[]): SheetLayout {
+  const columns = SHEET_TABS[tab];
+  if (!columns) throw new SheetSchemaError(`Unknown sheet: ${tab}`);
+
+  const missing: string[] = [];
+  const duplicated: string[] = [];
+  const positions = columns.map((column) => {
+    const found = columnPositions(header, column);
+    if (found.length === 0) missing.push(column);
+    if (found.length > 1) duplicated.push(column);
+    return found[0] ?? -1;
+  });
+
+  if (missing.length > 0) {
+    throw new SheetSchemaError(`Sheet "${tab}" is missing columns: ${missing.join(", ")}`);
+  }
+  if (duplicated.length > 0) {
+    throw new SheetSchemaError(`Sheet "${tab}" has duplicate columns: ${duplicated.join(", ")}`);
+  }
+  return { tab, width: header.length, positions };
+}
+
+/** 見出しに無い列の名前（タブの定義に無い列は読み書きせず、そのまま残す） */
+export function extraColumns(tab: string, header: string[]): string[] {
+  const known = new Set(
+    (SHEET_TABS[tab] ?? []).flatMap((column) => [column, ...(HEADER_ALIASES[column] ?? [])]).map(headerKey)
+  );
+  return header.filter((name) => name && !known.has(headerKey(name)));
+}
+
+/** シートの1行 → 定義の並びの行（空のセルは ""） */
+export function fromSheetRow(layout: SheetLayout, row: unknown[]): string[] {
+  return layout.positions.map((p) => String(row[p] ?? ""));
+}
+
+/** 定義の並びの行 → シートの1行（定義に無い列は空欄） */
+export function toSheetRow(layout: SheetLayout, row: unknown[]): unknown[] {
+  const out: unknown[] = Array.from({ length: layout.width }, () => "");
+  row.forEach((value, i) => {
+    out[layout.positions[i]] = value ?? "";
+  });
+  return out;
+}
+
+/* ==================================================
+   マイグレーション
+   列を足すときは SHEET_TABS に列を加え、ここに新しい Version で addColumns を追加する。
+   既存のスプレッドシートは起動時に未適用のものから順に、その場で書き換えられる
+================================================== */
+
+export type MigrationStep =
+  // 見出しに無ければ右端に列を足す（既存の行は空欄のまま）
+  | { type: "addColumns"; tab: string; columns: string[] }
+  // 記録ID列が空の行に ID を振る（行番号から作った仮の ID は行を消すとずれるため）
+  | { type: "fillIds"; tab: string; column: string }
+  // UserId 列が空の行に、ユーザー別にする前の持ち主（LINE_USER_ID）を入れる（空のままだと誰の記録にも出ない）
+  | { type: "fillOwner"; tab: string; column: string };
+
+export type Migration = { version: number; description: string; steps: MigrationStep[] };
+
+const DETAIL_LOG_TABS = ["Exercise Log", "Meditation Log", "Journal Log"];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Add UserId to log tabs and fill it with the legacy owner",
+    steps: ["Meal Log", ...DETAIL_LOG_TABS].flatMap((tab): MigrationStep[] => [
+      { type: "addColumns", tab, columns: ["UserId"] },
+      { type: "fillOwner", tab, column: "UserId" },
+    ]),
+  },
+  {
+    version: 2,
+    description: "Add record IDs and fill them for existing rows",
+    steps: [
+      ...["Meal Log", ...DETAIL_LOG_TABS].flatMap((tab): MigrationStep[] => [
+        { type: "addColumns", tab, columns: ["Id"] },
+        { type: "fillIds", tab, column: "Id" },
+      ]),
+      { type: "addColumns", tab: "Meal Item Log", columns: ["UserId", "MealId"] },
+      { type: "fillOwner", tab: "Meal Item Log", column: "UserId" },
+    ],
+  },
+  {
+    version: 3,
+    description: "Add exercise, meditation and journal detail columns",
+    steps: DETAIL_LOG_TABS.map((tab) => ({
+      type: "addColumns",
+      tab,
+      columns: SHEET_TABS[tab].slice(SIMPLE_LOG_COLUMNS.length),
+    })),
+  },
+  {
+    version: 4,
+    description: "Add user reminder settings columns",
+    steps: [{ type: "addColumns", tab: "Users", columns: ["ReminderTimes", "ReminderCategories"] }],
+  },
+  {
+    version: 5,
+    description: "Add claim IDs to webhook events",
+    steps: [{ type: "addColumns", tab: "Webhook Events", columns: ["ClaimId"] }],
+  },
+];
+
+export const SCHEMA_VERSION = Math.max(...MIGRATIONS.map((m) => m.version));
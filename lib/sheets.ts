@@ -1,154 +1,922 @@
 // lib/sheets.ts
+import crypto from "crypto";
 import { google } from "googleapis";
+import type {
+  ConversationTurnRow,
+  RecentEntryRow,
+  ExerciseLogRow,
+  JournalLogRow,
+  LogStore,
+  MealItemRow,
+  MealLogRow,
+  MeditationLogRow,
+  MeditationSessionRow,
+  MetricKind,
+  MetricLogRow,
+  ProfileRow,
+  ReminderCategory,
+  SimpleLogKind,
+  SimpleLogRow,
+  UserRow,
+  WebhookEventRow,
+} from "@/lib/logStore";
+import { normalizeUserRow } from "@/lib/reminders";
+import { normalizeExerciseRow } from "@/lib/exercise";
+import { normalizeMeditationRow } from "@/lib/meditation";
+import { normalizeJournalRow } from "@/lib/journal";
+import { getMetric, normalizeMetricRow } from "@/lib/metrics";
+import {
+  extraColumns,
+  findColumn,
+  fromSheetRow,
+  mapHeader,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SHEET_TABS,
+  SheetSchemaError,
+  toSheetRow,
+  type MigrationStep,
+  type SheetLayout,
+} from "@/lib/sheetSchema";
 
 const SCOPES = ["https://www.googleapis.com/auth/spreadsheets"];
 const sheets = google.sheets("v4");
 
 /** ====== 型定義 ====== */
+export type { MealLogRow, MealItemRow, SimpleLogRow, SimpleLogKind, ExerciseLogRow, MeditationLogRow, JournalLogRow, MeditationSessionRow, MetricKind, MetricLogRow, ConversationTurnRow, WebhookEventRow, UserRow, UserStatus, ReminderCategory, ProfileRow } from "@/lib/logStore";
+
+/** ====== 共通認証処理（クライアントは使い回す。アクセストークンの更新は GoogleAuth が行う） ====== */
+let auth: InstanceType<typeof google.auth.GoogleAuth> | null = null;
 
-// 食事ログ 14列: [Date, Time, MealDate, MealType, Input, kcal, protein, fat, carbs, B6, D, Mg, Fe, Zn]
-export type MealLogRow = [
-  string, // 日付 (YYYY-MM-DD)
-  string, // 時刻 (HH:MM)
-  string, // MealDate
-  string, // MealType
-  string, // 入力内容
-  number, // kcal
-  number, // protein
-  number, // fat
-  number, // carbs
-  number, // vitaminB6
-  number, // vitaminD
-  number, // magnesium
-  number, // iron
-  number  // zinc
-];
-
-// 運動 / 瞑想 / ジャーナルは共通で [Date, Time, Text]
-export type SimpleLogRow = [string, string, string];
-
-/** ====== 共通認証処理 ====== */
 async function getAuthClient() {
-  const auth = new google.auth.GoogleAuth({
+  auth ??= new google.auth.GoogleAuth({
     credentials: {
       client_email: process.env.GOOGLE_CLIENT_EMAIL,
       private_key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
     },
     scopes: SCOPES,
   });
-  return auth.getClient();
+  return auth;
+}
+
+/** 列番号（0始まり）→ 列名（A, B, …） */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
 }
 
 /* ==================================================
-   食事ログ関連
+   スキーマの準備（起動してから最初の読み書きの前に1回）
 ================================================== */
 
-/** 食事ログの追加 */
-export async function appendMealLog(row: MealLogRow): Promise<void> {
+let schemaReady: Promise<void> | null = null;
+
+async function ensureSheetSchema(): Promise<void> {
+  // 失敗したら次の読み書きでやり直す
+  schemaReady ??= setupSheets().catch((e) => {
+    schemaReady = null;
+    throw e;
+  });
+  await schemaReady;
+}
+
+/** 各タブの1行目（見出し） */
+async function readHeaders(tabs: string[]): Promise<Record<string, string[]>> {
   const authClient = await getAuthClient();
 
-  await sheets.spreadsheets.values.append({
+  const res = await sheets.spreadsheets.values.batchGet({
     spreadsheetId: process.env.SHEET_ID,
-    range: "Meal Log!A2",
-    valueInputOption: "USER_ENTERED",
-    insertDataOption: "INSERT_ROWS",
-    requestBody: { values: [row] },
+    ranges: tabs.map((tab) => `'${tab}'!1:1`),
     auth: authClient,
   });
+
+  const ranges = res.data.valueRanges || [];
+  return Object.fromEntries(tabs.map((tab, i) => [tab, ((ranges[i]?.values?.[0] ?? []) as unknown[]).map(String)]));
 }
 
-/** 指定日の食事ログを取得 */
-export async function getMealLogsByDate(date: string): Promise<MealLogRow[]> {
+async function writeHeader(tab: string, startIndex: number, names: string[]): Promise<void> {
   const authClient = await getAuthClient();
 
-  const res = await sheets.spreadsheets.values.get({
+  await sheets.spreadsheets.values.update({
     spreadsheetId: process.env.SHEET_ID,
-    range: "Meal Log!A2:N", // A〜N列（14列分）
+    range: `${tab}!${columnName(startIndex)}1`,
+    valueInputOption: "RAW",
+    requestBody: { values: [names] },
     auth: authClient,
   });
-
-  const rows = (res.data.values || []) as string[][];
-  return rows.filter((row) => row[2] === date) as unknown as MealLogRow[];
 }
 
-/** 任意の期間の食事ログを取得 */
-export async function getMealLogsByRange(start: string, end: string): Promise<MealLogRow[]> {
+/** 適用済みのマイグレーションの最大の Version（まだ何も適用していなければ 0） */
+async function currentSchemaVersion(): Promise<number> {
   const authClient = await getAuthClient();
 
   const res = await sheets.spreadsheets.values.get({
     spreadsheetId: process.env.SHEET_ID,
-    range: "Meal Log!A2:N",
+    range: "'Schema Migrations'",
     auth: authClient,
   });
 
-  const rows = (res.data.values || []) as string[][];
+  const [header = [], ...rows] = (res.data.values || []) as string[][];
+  const column = findColumn(header, "Version");
+  return Math.max(0, ...rows.map((r) => Number(r[column])).filter(Number.isFinite));
+}
+
+async function runMigrationStep(step: MigrationStep, headers: Record<string, string[]>): Promise<void> {
+  const header = headers[step.tab];
 
-  if (start === "ALL" && end === "ALL") {
-    return rows as unknown as MealLogRow[];
+  if (step.type === "addColumns") {
+    const added = step.columns.filter((column) => findColumn(header, column) === -1);
+    if (added.length === 0) return;
+    await writeHeader(step.tab, header.length, added);
+    headers[step.tab] = [...header, ...added];
+    return;
   }
 
-  return rows.filter((row) => row[2] >= start && row[2] <= end) as unknown as MealLogRow[];
+  // fillIds / fillOwner: まだ他の列が揃っていないことがあるので、見出しからその列だけを探して書く
+  const authClient = await getAuthClient();
+  const index = findColumn(header, step.column);
+  const res = await sheets.spreadsheets.values.get({
+    spreadsheetId: process.env.SHEET_ID,
+    range: `'${step.tab}'`,
+    auth: authClient,
+  });
+
+  const rows = ((res.data.values || []) as string[][]).slice(1);
+  const blank = rows.flatMap((row, i) => (!row[index] && row.some(Boolean) ? [i + 2] : []));
+  if (blank.length === 0) return;
+
+  const owner = process.env.LINE_USER_ID;
+  if (step.type === "fillOwner" && !owner) {
+    // 持ち主が分からないまま進めると、これまでの記録が誰からも見えなくなるので止める
+    throw new SheetSchemaError(`Sheet "${step.tab}" has rows without ${step.column}. Set LINE_USER_ID to their owner`);
+  }
+  const data = blank.map((rowNumber) => ({
+    range: `${step.tab}!${columnName(index)}${rowNumber}`,
+    values: [[step.type === "fillIds" ? crypto.randomUUID() : owner]],
+  }));
+  await sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId: process.env.SHEET_ID,
+    requestBody: { valueInputOption: "RAW", data },
+    auth: authClient,
+  });
+  console.log(step.type === "fillIds" ? "[SHEETS][MIGRATE][IDS]" : "[SHEETS][MIGRATE][OWNER]", step.tab, data.length);
 }
 
-/** 食事ログの全データ範囲を取得（最初と最後の日付） */
-export async function getMealLogDateRange(): Promise<{ start: string; end: string } | null> {
+/**
+ * スプレッドシートを今のスキーマに合わせる。
+ * 無いタブは見出し付きで作り、見出しの無いタブには定義どおりの見出しを書く（これまで列の並びで読んでいたため）。
+ * 未適用のマイグレーションを順に当てたあと、全タブの見出しを確かめる（足りない列があれば SheetSchemaError）
+ */
+export async function setupSheets(): Promise<void> {
   const authClient = await getAuthClient();
+  const tabs = Object.keys(SHEET_TABS);
 
-  const res = await sheets.spreadsheets.values.get({
+  const res = await sheets.spreadsheets.get({
     spreadsheetId: process.env.SHEET_ID,
-    range: "Meal Log!C2:C", // Meal Date 列（C列）
+    fields: "sheets.properties(sheetId,title)",
     auth: authClient,
   });
+  rememberSheetIds(res.data.sheets);
+  const missing = tabs.filter((tab) => !sheetIds.has(tab));
+  if (missing.length > 0) {
+    const created = await sheets.spreadsheets.batchUpdate({
+      spreadsheetId: process.env.SHEET_ID,
+      requestBody: { requests: missing.map((title) => ({ addSheet: { properties: { title } } })) },
+      auth: authClient,
+    });
+    rememberSheetIds((created.data.replies || []).map((r) => r.addSheet ?? {}));
+    console.log("[SHEETS][SETUP] created", missing.join(", "));
+  }
+
+  const headers = await readHeaders(tabs);
+  const blank = tabs.filter((t) => headers[t].length === 0);
+  if (blank.length > 0) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: process.env.SHEET_ID,
+      requestBody: {
+        valueInputOption: "RAW",
+        data: blank.map((tab) => ({ range: `${tab}!A1`, values: [SHEET_TABS[tab]] })),
+      },
+      auth: authClient,
+    });
+    blank.forEach((tab) => (headers[tab] = [...SHEET_TABS[tab]]));
+  }
+
+  const version = await currentSchemaVersion();
+  for (const migration of MIGRATIONS.filter((m) => m.version > version)) {
+    for (const step of migration.steps) {
+      await runMigrationStep(step, headers);
+    }
+    const layout = mapHeader("Schema Migrations", headers["Schema Migrations"]);
+    await appendRows(
+      "Schema Migrations",
+      layout,
+      [[migration.version, migration.description, new Date().toISOString()]],
+      "RAW"
+    );
+    console.log("[SHEETS][MIGRATE]", migration.version, migration.description);
+  }
+
+  for (const tab of tabs) {
+    mapHeader(tab, headers[tab]);
+    const extra = extraColumns(tab, headers[tab]);
+    if (extra.length > 0) console.warn("[SHEETS][SCHEMA] extra columns are kept as is:", tab, extra.join(", "));
+  }
+  readCache.clear();
+  console.log("[SHEETS][SETUP] schema version", SCHEMA_VERSION);
+}
+
+/* ==================================================
+   読み取りのキャッシュ
+   同じ範囲の読み取りは READ_CACHE_TTL_MS の間使い回す（1回の返信で同じタブを何度も読むため）。
+   このプロセスから書き込んだタブのキャッシュはその場で捨てる。
+   行番号を使う更新・削除と、重複のチェックはキャッシュを使わない
+================================================== */
+
+const READ_CACHE_TTL_MS = 30 * 1000;
+const readCache = new Map<string, { expiresAt: number; values: Promise<unknown[][][]> }>();
+
+/** 1つのタブの複数の範囲を1回の API 呼び出しで読む */
+async function getValues(tab: string, ranges: string[], { fresh = false } = {}): Promise<unknown[][][]> {
+  await ensureSheetSchema();
+  const key = `${tab}\n${ranges.join("\n")}`;
+  const cached = readCache.get(key);
+  if (!fresh && cached && cached.expiresAt > Date.now()) return cached.values;
+
+  const values = (async () => {
+    const authClient = await getAuthClient();
+    const res = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId: process.env.SHEET_ID,
+      ranges,
+      auth: authClient,
+    });
+    return ranges.map((_, i) => (res.data.valueRanges?.[i]?.values ?? []) as unknown[][]);
+  })();
+  readCache.set(key, { expiresAt: Date.now() + READ_CACHE_TTL_MS, values });
+  values.catch(() => {
+    if (readCache.get(key)?.values === values) readCache.delete(key);
+  });
+  return values;
+}
+
+function invalidateCache(tab: string): void {
+  for (const key of readCache.keys()) {
+    if (key.startsWith(`${tab}\n`)) readCache.delete(key);
+  }
+}
+
+/* ==================================================
+   タブの読み取り（列は見出しの名前で対応させる）
+================================================== */
+
+// rows は定義の並びに直した行（2行目から）
+type SheetTable = { layout: SheetLayout; rows: string[][] };
+// rowNumber はシートの行番号（見出しが1行目）
+type SheetRow = { rowNumber: number; row: string[] };
+
+// 絞り込んだ行を読むときの範囲の数の上限（超えたら最初から最後の行までを1つの範囲で読む）
+const MAX_READ_RANGES = 40;
+
+/** タブ全体を読む（ユーザー一覧など、小さいタブ用） */
+async function readTable(tab: string): Promise<SheetTable> {
+  const [values] = await getValues(tab, [`'${tab}'`]);
+  const [header = [], ...raw] = values;
+  const layout = mapHeader(tab, header.map(String));
+  return { layout, rows: raw.map((row) => fromSheetRow(layout, row)) };
+}
+
+async function getLayout(tab: string, fresh = false): Promise<SheetLayout> {
+  const [values] = await getValues(tab, [`'${tab}'!1:1`], { fresh });
+  return mapHeader(tab, (values[0] ?? []).map(String));
+}
+
+/**
+ * 索引に使う列（UserId・日付・記録IDなど。定義の並びの位置で指定）だけを読む。
+ * 見出しも同じ呼び出しで読み、列の対応が変わっていたら新しい対応で読み直す
+ */
+async function readKeyColumns(
+  tab: string,
+  keyIndexes: number[],
+  fresh = false
+): Promise<{ layout: SheetLayout; keys: string[][] }> {
+  let layout = await getLayout(tab, fresh);
+  for (let attempt = 0; ; attempt++) {
+    const columns = keyIndexes.map((k) => columnName(layout.positions[k]));
+    const [header, ...values] = await getValues(
+      tab,
+      [`'${tab}'!1:1`, ...columns.map((c) => `'${tab}'!${c}2:${c}`)],
+      { fresh: fresh || attempt > 0 }
+    );
+    const current = mapHeader(tab, (header[0] ?? []).map(String));
+    const moved = current.width !== layout.width || current.positions.some((p, i) => p !== layout.positions[i]);
+    if (moved && attempt === 0) {
+      console.log("[SHEETS][LAYOUT] header changed", tab);
+      invalidateCache(tab);
+      layout = current;
+      continue;
+    }
+
+    const count = Math.max(0, ...values.map((v) => v.length));
+    const keys = Array.from({ length: count }, (_, i) => values.map((v) => String(v[i]?.[0] ?? "")));
+    return { layout: current, keys };
+  }
+}
+
+/** 行番号の並びを連続した範囲にまとめて読む */
+async function readRows(tab: string, layout: SheetLayout, rowNumbers: number[]): Promise<SheetRow[]> {
+  if (rowNumbers.length === 0) return [];
+  let spans: [number, number][] = [];
+  for (const n of rowNumbers) {
+    const last = spans[spans.length - 1];
+    if (last && last[1] + 1 === n) last[1] = n;
+    else spans.push([n, n]);
+  }
+  if (spans.length > MAX_READ_RANGES) spans = [[rowNumbers[0], rowNumbers[rowNumbers.length - 1]]];
+
+  const lastColumn = columnName(layout.width - 1);
+  const values = await getValues(
+    tab,
+    spans.map(([start, end]) => `'${tab}'!A${start}:${lastColumn}${end}`)
+  );
+  const wanted = new Set(rowNumbers);
+  return spans
+    .flatMap(([start, end], i) =>
+      Array.from({ length: end - start + 1 }, (_, j) => ({
+        rowNumber: start + j,
+        row: fromSheetRow(layout, values[i][j] ?? []),
+      }))
+    )
+    .filter((r) => wanted.has(r.rowNumber));
+}
+
+/** 索引の列で行を絞り込み、その行だけを読む（日付で絞り込むので、期間のサマリーでタブ全体を読まない） */
+async function selectRows(tab: string, keyIndexes: number[], match: (keys: string[]) => boolean): Promise<SheetRow[]> {
+  const { layout, keys } = await readKeyColumns(tab, keyIndexes);
+  const rowNumbers = keys.flatMap((k, i) => (match(k) ? [i + 2] : []));
+  return readRows(tab, layout, rowNumbers);
+}
+
+function inRange(date: string, start: string, end: string): boolean {
+  return (start === "ALL" && end === "ALL") || (date >= start && date <= end);
+}
+
+/** 記録ID列が空の古い行には行番号から仮の ID を振る（"row-<行番号>"） */
+function withRowId(row: string[], rowNumber: number, idIndex: number): string[] {
+  if (row[idIndex]) return row;
+  const filled = [...row];
+  while (filled.length < idIndex) filled.push("");
+  filled[idIndex] = `row-${rowNumber}`;
+  return filled;
+}
+
+/** 指定ユーザーの行の行番号（id を渡すとその記録IDの行だけ。キャッシュは使わない） */
+async function findRowNumbers(
+  sheetName: string,
+  userIdIndex: number,
+  idIndex: number,
+  userId: string,
+  id?: string
+): Promise<number[]> {
+  const { keys } = await readKeyColumns(sheetName, [userIdIndex, idIndex], true);
+  return keys.flatMap(([rowUserId, rowId], i) =>
+    rowUserId === userId && (id === undefined || (rowId || `row-${i + 2}`) === id) ? [i + 2] : []
+  );
+}
+
+/* ==================================================
+   タブへの書き込み
+================================================== */
+
+// シート名 → sheetId（行削除に必要。タブを消して作り直さない限り変わらない）
+const sheetIds = new Map<string, number>();
+
+function rememberSheetIds(list: { properties?: { sheetId?: number | null; title?: string | null } }[] = []) {
+  for (const { properties } of list) {
+    if (properties?.title && properties.sheetId != null) sheetIds.set(properties.title, properties.sheetId);
+  }
+}
+
+async function getSheetId(sheetName: string): Promise<number> {
+  if (!sheetIds.has(sheetName)) {
+    const authClient = await getAuthClient();
+    const res = await sheets.spreadsheets.get({
+      spreadsheetId: process.env.SHEET_ID,
+      fields: "sheets.properties(sheetId,title)",
+      auth: authClient,
+    });
+    rememberSheetIds(res.data.sheets);
+  }
+  const sheetId = sheetIds.get(sheetName);
+  if (sheetId === undefined) throw new Error(`Sheet not found: ${sheetName}`);
+  return sheetId;
+}
+
+/**
+ * 1行のうち定義の列だけを書き換える（定義に無い列と、row が定義より短いときのその先の列はそのまま）。
+ * 隣り合う列は1つの範囲にまとめ、1回の API 呼び出しで書く
+ */
+async function writeCells(sheetName: string, layout: SheetLayout, rowNumber: number, row: unknown[]): Promise<void> {
+  const runs: { start: number; values: unknown[] }[] = [];
+  row.forEach((value, i) => {
+    const position = layout.positions[i];
+    const last = runs[runs.length - 1];
+    if (last && last.start + last.values.length === position) last.values.push(value ?? "");
+    else runs.push({ start: position, values: [value ?? ""] });
+  });
+  const authClient = await getAuthClient();
+
+  try {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: process.env.SHEET_ID,
+      requestBody: {
+        valueInputOption: "USER_ENTERED",
+        data: runs.map((r) => ({ range: `${sheetName}!${columnName(r.start)}${rowNumber}`, values: [r.values] })),
+      },
+      auth: authClient,
+    });
+  } finally {
+    invalidateCache(sheetName);
+  }
+}
+
+/** UserId・記録IDが一致する行を上書き（見つからなければ false） */
+async function updateRowById(sheetName: string, userIdIndex: number, idIndex: number, row: unknown[]): Promise<boolean> {
+  const [rowNumber] = await findRowNumbers(
+    sheetName,
+    userIdIndex,
+    idIndex,
+    String(row[userIdIndex]),
+    String(row[idIndex])
+  );
+  if (!rowNumber) return false;
+  await writeCells(sheetName, await getLayout(sheetName), rowNumber, row);
+  return true;
+}
+
+async function appendRows(
+  sheetName: string,
+  layout: SheetLayout,
+  rows: unknown[][],
+  valueInputOption: "USER_ENTERED" | "RAW" = "USER_ENTERED"
+): Promise<void> {
+  const authClient = await getAuthClient();
+
+  try {
+    await sheets.spreadsheets.values.append({
+      spreadsheetId: process.env.SHEET_ID,
+      range: `${sheetName}!A2`,
+      valueInputOption,
+      insertDataOption: "INSERT_ROWS",
+      requestBody: { values: rows.map((row) => toSheetRow(layout, row)) },
+      auth: authClient,
+    });
+  } finally {
+    invalidateCache(sheetName);
+  }
+}
+
+/**
+ * 既に同じ UserId・記録IDの行があるものを除いて追加する（Webhook の再送で同じ記録を2回追加しないように）。
+ * どのタブも UserId 列のすぐ次が記録ID列（食事の内訳は食事の記録ID）
+ */
+async function appendNewRows(sheetName: string, userIdIndex: number, rows: unknown[][]): Promise<void> {
+  if (rows.length === 0) return;
+  const { layout, keys } = await readKeyColumns(sheetName, [userIdIndex, userIdIndex + 1], true);
+
+  const existing = new Set(keys.map(([userId, id]) => `${userId}\t${id}`));
+  const fresh = rows.filter((row) => !existing.has(`${row[userIdIndex]}\t${row[userIdIndex + 1]}`));
+  if (fresh.length < rows.length) console.log("[SHEETS][SKIP]", sheetName, rows.length - fresh.length);
+  if (fresh.length === 0) return;
+  await appendRows(sheetName, layout, fresh);
+}
+
+/** 複数のタブの行をまとめて削除する（1回の API 呼び出し） */
+async function deleteRows(deletions: Record<string, number[]>): Promise<void> {
+  const targets = Object.entries(deletions).filter(([, rowNumbers]) => rowNumbers.length > 0);
+  if (targets.length === 0) return;
+  const authClient = await getAuthClient();
+
+  const requests = [];
+  for (const [sheetName, rowNumbers] of targets) {
+    const sheetId = await getSheetId(sheetName);
+    // 下の行から消さないと行番号がずれる
+    requests.push(
+      ...[...rowNumbers]
+        .sort((a, b) => b - a)
+        .map((n) => ({ deleteDimension: { range: { sheetId, dimension: "ROWS", startIndex: n - 1, endIndex: n } } }))
+    );
+  }
+
+  try {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId: process.env.SHEET_ID,
+      requestBody: { requests },
+      auth: authClient,
+    });
+  } finally {
+    targets.forEach(([sheetName]) => invalidateCache(sheetName));
+  }
+}
+
+/* ==================================================
+   食事ログ関連
+================================================== */
+
+/** 食事ログの追加 */
+export async function appendMealLog(row: MealLogRow): Promise<void> {
+  await appendMealLogs([row]);
+}
+
+/** 食事ログをまとめて追加（インポート用。1回の API 呼び出しで書き込む） */
+export async function appendMealLogs(rows: MealLogRow[]): Promise<void> {
+  await appendNewRows("Meal Log", 14, rows);
+}
 
-  const rows = (res.data.values || []).map((r) => r[0]).filter(Boolean);
+/** 食事の品目ごとの内訳を追加 */
+export async function appendMealItemLogs(rows: MealItemRow[]): Promise<void> {
+  await appendNewRows("Meal Item Log", 15, rows);
+}
+
+/** 指定日の食事ログを取得 */
+export async function getMealLogsByDate(userId: string, date: string): Promise<MealLogRow[]> {
+  return getMealLogsByRange(userId, date, date);
+}
+
+/** 任意の期間の食事ログを取得（UserId・MealDate 列で絞り込んでから、その行だけを読む） */
+export async function getMealLogsByRange(userId: string, start: string, end: string): Promise<MealLogRow[]> {
+  const rows = await selectRows("Meal Log", [14, 2], ([u, date]) => u === userId && inRange(date, start, end));
+  return rows.map(({ rowNumber, row }) => withRowId(row, rowNumber, 15)) as unknown as MealLogRow[];
+}
+
+/** 食事ログの全データ範囲を取得（最初と最後の日付。UserId・MealDate 列だけを読む） */
+export async function getMealLogDateRange(userId: string): Promise<{ start: string; end: string } | null> {
+  const { keys } = await readKeyColumns("Meal Log", [14, 2]);
+
+  const rows = keys.filter(([u]) => u === userId).map(([, date]) => date).filter(Boolean);
   if (rows.length === 0) return null;
 
   const sorted = rows.sort();
   return { start: sorted[0], end: sorted[sorted.length - 1] };
 }
 
+/** 食事ログの更新（記録IDで特定） */
+export async function updateMealLog(row: MealLogRow): Promise<boolean> {
+  return updateRowById("Meal Log", 14, 15, row);
+}
+
+/** 食事ログの削除（品目ごとの内訳も削除） */
+export async function deleteMealLog(userId: string, id: string): Promise<boolean> {
+  const rowNumbers = await findRowNumbers("Meal Log", 14, 15, userId, id);
+  if (rowNumbers.length === 0) return false;
+  await deleteRows({
+    "Meal Log": rowNumbers,
+    "Meal Item Log": await findRowNumbers("Meal Item Log", 15, 16, userId, id),
+  });
+  return true;
+}
+
+/** 指定した食事の品目ごとの内訳を取得 */
+export async function getMealItemLogs(userId: string, mealId: string): Promise<MealItemRow[]> {
+  const rows = await selectRows("Meal Item Log", [15, 16], ([u, id]) => u === userId && id === mealId);
+  return rows.map(({ row }) => row) as unknown as MealItemRow[];
+}
+
+/** 食事ログと品目ごとの内訳をまとめて更新（内訳は置き換え。食事が見つからなければ false） */
+export async function updateMealLogWithItems(row: MealLogRow, items: MealItemRow[]): Promise<boolean> {
+  if (!(await updateMealLog(row))) return false;
+  await deleteRows({ "Meal Item Log": await findRowNumbers("Meal Item Log", 15, 16, row[14], row[15]) });
+  await appendMealItemLogs(items);
+  return true;
+}
+
 /* ==================================================
    運動・瞑想・ジャーナルログ
 ================================================== */
 
-/** 運動ログの追加 */
-export async function appendExerciseLog(row: SimpleLogRow): Promise<void> {
-  const authClient = await getAuthClient();
+const SIMPLE_LOG_SHEETS: Record<SimpleLogKind, string> = {
+  exercise: "Exercise Log",
+  meditation: "Meditation Log",
+  journal: "Journal Log",
+};
 
-  await sheets.spreadsheets.values.append({
-    spreadsheetId: process.env.SHEET_ID,
-    range: "Exercise Log!A2",
-    valueInputOption: "USER_ENTERED",
-    insertDataOption: "INSERT_ROWS",
-    requestBody: { values: [row] },
-    auth: authClient,
-  });
+/** 運動ログの追加（13列。不明な項目は空欄） */
+export async function appendExerciseLog(row: ExerciseLogRow): Promise<void> {
+  await appendExerciseLogs([row]);
 }
 
-/** 瞑想ログの追加 */
-export async function appendMeditationLog(row: SimpleLogRow): Promise<void> {
-  const authClient = await getAuthClient();
+export async function appendExerciseLogs(rows: ExerciseLogRow[]): Promise<void> {
+  await appendNewRows(SIMPLE_LOG_SHEETS.exercise, 3, rows);
+}
 
-  await sheets.spreadsheets.values.append({
-    spreadsheetId: process.env.SHEET_ID,
-    range: "Meditation Log!A2",
-    valueInputOption: "USER_ENTERED",
-    insertDataOption: "INSERT_ROWS",
-    requestBody: { values: [row] },
-    auth: authClient,
-  });
+/** 瞑想ログの追加（9列。時間が不明なら空欄） */
+export async function appendMeditationLog(row: MeditationLogRow): Promise<void> {
+  await appendMeditationLogs([row]);
 }
 
-/** ジャーナルログの追加 */
-export async function appendJournalLog(row: SimpleLogRow): Promise<void> {
-  const authClient = await getAuthClient();
+export async function appendMeditationLogs(rows: MeditationLogRow[]): Promise<void> {
+  await appendNewRows(SIMPLE_LOG_SHEETS.meditation, 3, rows);
+}
 
-  await sheets.spreadsheets.values.append({
-    spreadsheetId: process.env.SHEET_ID,
-    range: "Journal Log!A2",
-    valueInputOption: "USER_ENTERED",
-    insertDataOption: "INSERT_ROWS",
-    requestBody: { values: [row] },
-    auth: authClient,
+/** ジャーナルログの追加（8列。感情・タグはカンマ区切り） */
+export async function appendJournalLog(row: JournalLogRow): Promise<void> {
+  await appendJournalLogs([row]);
+}
+
+export async function appendJournalLogs(rows: JournalLogRow[]): Promise<void> {
+  await appendNewRows(
+    SIMPLE_LOG_SHEETS.journal,
+    3,
+    rows.map((row) => [...row.slice(0, 6), row[6].join(","), row[7].join(",")])
+  );
+}
+
+/** 指定ユーザー・期間の運動 / 瞑想 / ジャーナルログを取得（UserId・Date 列で絞り込む） */
+async function getSimpleLogsByRange(sheetName: string, userId: string, start: string, end: string): Promise<string[][]> {
+  const rows = await selectRows(sheetName, [3, 0], ([u, date]) => u === userId && inRange(date, start, end));
+  return rows.map(({ rowNumber, row }) => withRowId(row, rowNumber, 4));
+}
+
+/** 運動ログを期間で取得（詳細列の無い古い行は本文から解釈し直す） */
+export async function getExerciseLogsByRange(userId: string, start: string, end: string): Promise<ExerciseLogRow[]> {
+  const rows = await getSimpleLogsByRange(SIMPLE_LOG_SHEETS.exercise, userId, start, end);
+  return rows.map(normalizeExerciseRow);
+}
+
+/** 瞑想ログを期間で取得（詳細列の無い古い行は本文から解釈し直す） */
+export async function getMeditationLogsByRange(userId: string, start: string, end: string): Promise<MeditationLogRow[]> {
+  const rows = await getSimpleLogsByRange(SIMPLE_LOG_SHEETS.meditation, userId, start, end);
+  return rows.map(normalizeMeditationRow);
+}
+
+/** ジャーナルログを期間で取得 */
+export async function getJournalLogsByRange(userId: string, start: string, end: string): Promise<JournalLogRow[]> {
+  const rows = await getSimpleLogsByRange(SIMPLE_LOG_SHEETS.journal, userId, start, end);
+  return rows.map(normalizeJournalRow);
+}
+
+/** 運動 / 瞑想 / ジャーナルログの更新（記録IDで特定。Date〜Id の5列のみ書き換える） */
+export async function updateSimpleLog(kind: SimpleLogKind, row: SimpleLogRow): Promise<boolean> {
+  return updateRowById(SIMPLE_LOG_SHEETS[kind], 3, 4, row);
+}
+
+/** 運動 / 瞑想 / ジャーナルログの削除 */
+export async function deleteSimpleLog(kind: SimpleLogKind, userId: string, id: string): Promise<boolean> {
+  const sheetName = SIMPLE_LOG_SHEETS[kind];
+  const rowNumbers = await findRowNumbers(sheetName, 3, 4, userId, id);
+  if (rowNumbers.length === 0) return false;
+  await deleteRows({ [sheetName]: rowNumbers });
+  return true;
+}
+
+/* ==================================================
+   体重・睡眠などの指標ログ（タブと列は lib/metrics.ts の定義に従う）
+================================================== */
+
+/** 指標ログの追加（不明な項目は空欄） */
+export async function appendMetricLog(kind: MetricKind, row: MetricLogRow): Promise<void> {
+  await appendMetricLogs(kind, [row]);
+}
+
+export async function appendMetricLogs(kind: MetricKind, rows: MetricLogRow[]): Promise<void> {
+  await appendNewRows(getMetric(kind).sheet, 3, rows);
+}
+
+/** 指標ログを期間で取得 */
+export async function getMetricLogsByRange(
+  kind: MetricKind,
+  userId: string,
+  start: string,
+  end: string
+): Promise<MetricLogRow[]> {
+  const def = getMetric(kind);
+  const rows = await getSimpleLogsByRange(def.sheet, userId, start, end);
+  return rows.map((row) => normalizeMetricRow(def, row));
+}
+
+/** 指標ログの削除 */
+export async function deleteMetricLog(kind: MetricKind, userId: string, id: string): Promise<boolean> {
+  const sheetName = getMetric(kind).sheet;
+  const rowNumbers = await findRowNumbers(sheetName, 3, 4, userId, id);
+  if (rowNumbers.length === 0) return false;
+  await deleteRows({ [sheetName]: rowNumbers });
+  return true;
+}
+
+/* ==================================================
+   進行中の瞑想セッション
+================================================== */
+
+/** 指定ユーザーの進行中セッションを取得（無ければ null） */
+export async function getMeditationSession(userId: string): Promise<MeditationSessionRow | null> {
+  const [found] = await selectRows("Meditation Sessions", [0], ([u]) => u === userId);
+  return found ? [found.row[0], found.row[1], found.row[2]] : null;
+}
+
+/** セッションの開始（userId が一致する行を上書き） */
+export async function upsertMeditationSession(row: MeditationSessionRow): Promise<void> {
+  await upsertRowByKey("Meditation Sessions", row);
+}
+
+/** セッションの終了・取り消し */
+export async function deleteMeditationSession(userId: string): Promise<boolean> {
+  const rowNumbers = await findRowNumbers("Meditation Sessions", 0, 0, userId);
+  if (rowNumbers.length === 0) return false;
+  await deleteRows({ "Meditation Sessions": rowNumbers });
+  return true;
+}
+
+/* ==================================================
+   コーチとの会話
+================================================== */
+
+/** 指定ユーザーの直近の発言（古い順） */
+export async function getConversationTurns(userId: string, limit: number): Promise<ConversationTurnRow[]> {
+  const rows = await selectRows("Conversations", [0], ([u]) => u === userId);
+  return rows
+    .slice(-limit)
+    .map(({ row: r }) => [r[0], r[1], r[2] === "assistant" ? "assistant" : "user", r[3]]);
+}
+
+/** 発言の追加。keep 件を超えた古い発言は行ごと削除する */
+export async function appendConversationTurns(
+  userId: string,
+  rows: ConversationTurnRow[],
+  keep: number
+): Promise<void> {
+  if (rows.length === 0) return;
+  // 会話の本文が「=」で始まっても数式として扱わない
+  await appendRows("Conversations", await getLayout("Conversations", true), rows, "RAW");
+
+  const rowNumbers = await findRowNumbers("Conversations", 0, 1, userId);
+  await deleteRows({ Conversations: rowNumbers.slice(0, Math.max(0, rowNumbers.length - keep)) });
+}
+
+/* ==================================================
+   チャットで付けた記録の履歴
+================================================== */
+
+/** 指定ユーザーの直近の履歴（古い順） */
+export async function getRecentEntries(userId: string, limit: number): Promise<RecentEntryRow[]> {
+  const rows = await selectRows("Recent Entries", [0], ([u]) => u === userId);
+  return rows.slice(-limit).map(({ row: r }) => [r[0], r[1], r[2], r[3], r[4]]);
+}
+
+/** 履歴の追加。keep 件を超えた古い履歴は行ごと削除する */
+export async function appendRecentEntry(row: RecentEntryRow, keep: number): Promise<void> {
+  await appendRows("Recent Entries", await getLayout("Recent Entries", true), [row], "RAW");
+
+  const rowNumbers = await findRowNumbers("Recent Entries", 0, 1, row[0]);
+  await deleteRows({ "Recent Entries": rowNumbers.slice(0, Math.max(0, rowNumbers.length - keep)) });
+}
+
+/* ==================================================
+   処理済みの Webhook イベント
+================================================== */
+
+/**
+ * 同じ webhookEventId の行がまだ無ければ true。期限切れの行はここで削除する。
+ * 読んでから追加すると、同時に届いた再送がどちらも「まだ無い」と見て両方処理してしまうので、
+ * 先に追加してから読み直し、その ID の最初の行が自分の追加した行（ClaimId で見分ける）のときだけ true にする。
+ * 負けた方の行は残しておき、期限切れで消す（消すと行番号がずれて、同時に読んでいる側を惑わせるため）
+ */
+export async function claimWebhookEvent(row: WebhookEventRow, expiresBefore: string): Promise<boolean> {
+  await appendRows("Webhook Events", await getLayout("Webhook Events", true), [row], "RAW");
+  const { keys } = await readKeyColumns("Webhook Events", [0, 1, 3], true);
+
+  const expired: number[] = [];
+  let winner: string | undefined;
+  keys.forEach(([eventId, receivedAt, claimId], i) => {
+    if (receivedAt < expiresBefore) expired.push(i + 2);
+    else if (eventId === row[0] && winner === undefined) winner = claimId;
   });
+  await deleteRows({ "Webhook Events": expired });
+  return winner === row[3];
 }
+
+/** 処理に失敗したイベントの記録を消す */
+export async function releaseWebhookEvent(eventId: string): Promise<void> {
+  await deleteRows({ "Webhook Events": await findRowNumbers("Webhook Events", 0, 0, eventId) });
+}
+
+/* ==================================================
+   ユーザー登録
+================================================== */
+
+function toUserRow(row: string[]): UserRow {
+  const list = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+  return normalizeUserRow([
+    row[0],
+    row[1],
+    row[2] === "unfollowed" ? "unfollowed" : "active",
+    row[3].toUpperCase() !== "FALSE",
+    row[4],
+    row[5],
+    list(row[6]),
+    list(row[7]) as ReminderCategory[],
+  ]);
+}
+
+/** 登録ユーザーを全件取得 */
+export async function getUsers(): Promise<UserRow[]> {
+  const { rows } = await readTable("Users");
+  return rows.filter((row) => row[0]).map(toUserRow);
+}
+
+/** 指定ユーザーを取得（未登録なら null） */
+export async function getUser(userId: string): Promise<UserRow | null> {
+  const [found] = await selectRows("Users", [0], ([u]) => u === userId);
+  return found ? toUserRow(found.row) : null;
+}
+
+/** 先頭列（userId）が一致する行を上書き、無ければ追加 */
+async function upsertRowByKey(sheetName: string, row: (string | number | boolean)[]): Promise<void> {
+  const { layout, keys } = await readKeyColumns(sheetName, [0], true);
+  const index = keys.findIndex(([key]) => key === row[0]);
+
+  if (index === -1) {
+    await appendRows(sheetName, layout, [row]);
+    return;
+  }
+
+  const rowNumber = index + 2; // ヘッダー行の分をずらす
+  await writeCells(sheetName, layout, rowNumber, row);
+}
+
+/** ユーザーの追加・更新（userId が一致する行を上書き） */
+export async function upsertUser(row: UserRow): Promise<void> {
+  await upsertRowByKey("Users", [...row.slice(0, 6), row[6].join(","), row[7].join(",")] as (string | boolean)[]);
+}
+
+/* ==================================================
+   プロフィール
+================================================== */
+
+/** 指定ユーザーのプロフィールを取得（未設定なら null） */
+export async function getProfile(userId: string): Promise<ProfileRow | null> {
+  const [found] = await selectRows("Profiles", [0], ([u]) => u === userId);
+  if (!found) return null;
+  const row = found.row;
+  return [
+    row[0],
+    Number(row[1] || 0),
+    row[2] === "female" ? "female" : "male",
+    Number(row[3] || 0),
+    row[4] === "low" || row[4] === "high" ? row[4] : "moderate",
+    row[5] === "cut" || row[5] === "gain" ? row[5] : "maintain",
+    row[6],
+  ];
+}
+
+/** プロフィールの追加・更新 */
+export async function upsertProfile(row: ProfileRow): Promise<void> {
+  await upsertRowByKey("Profiles", row);
+}
+
+/* ==================================================
+   LogStore 実装
+================================================== */
+
+export const sheetsLogStore: LogStore = {
+  appendMealLog,
+  appendMealLogs,
+  getMealLogsByDate,
+  getMealLogsByRange,
+  getMealLogDateRange,
+  appendMealItemLogs,
+  getMealItemLogs,
+  updateMealLog,
+  deleteMealLog,
+  updateMealLogWithItems,
+  appendExerciseLog,
+  appendMeditationLog,
+  appendJournalLog,
+  appendExerciseLogs,
+  appendMeditationLogs,
+  appendJournalLogs,
+  getExerciseLogsByRange,
+  getMeditationLogsByRange,
+  getJournalLogsByRange,
+  updateSimpleLog,
+  deleteSimpleLog,
+  appendMetricLog,
+  appendMetricLogs,
+  getMetricLogsByRange,
+  deleteMetricLog,
+  getMeditationSession,
+  upsertMeditationSession,
+  deleteMeditationSession,
+  getConversationTurns,
+  appendConversationTurns,
+  getRecentEntries,
+  appendRecentEntry,
+  claimWebhookEvent,
+  releaseWebhookEvent,
+  getUsers,
+  getUser,
+  upsertUser,
+  getProfile,
+  upsertProfile,
+};
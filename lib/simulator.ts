@@ -0,0 +1,313 @@
+// lib/simulator.ts
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline";
+import { parseArgs } from "util";
+import type { messagingApi, WebhookEvent } from "@line/bot-sdk";
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import { createBot } from "@/lib/bot";
+import { runJob } from "@/lib/jobs";
+import { getLogStore } from "@/lib/logStore";
+import { toReplies, type LineClient, type MessageContent } from "@/lib/line";
+import type { ChatMessage, LlmClient } from "@/lib/openai";
+import type { SpeechToText } from "@/lib/voice";
+
+/* ==================================================
+   ターミナルのチャットシミュレーター（npm run simulate）
+   入力した文をそのユーザーのメッセージイベントにして lib/bot.ts に渡し、返信を表示する。
+   LINE には送らず、既定では台本つきの偽の LLM とメモリ上の保存先を使うので、オフラインで会話を再現できる
+================================================== */
+
+/** ====== 台本つきの偽の LLM ======
+ * 台本の項目は上から順に1回ずつ使う。reply がオブジェクトなら JSON 出力の呼び出し（分類・栄養推定など）に
+ * JSON にして、文字列ならそれ以外（コーチの返信など）にそのまま返す。
+ * match があれば、プロンプト（システム・ユーザーの全文）にその文字列を含む呼び出しにだけ使う
+ */
+export type ScriptEntry = { match?: string; reply: string | object };
+
+const DEFAULT_TEXT_REPLY = "（シミュレーターの仮の返信です）";
+
+function messageText(message: ChatMessage): string {
+  const content = message.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((part) => ("text" in part ? part.text : "")).join("\n");
+}
+
+/** 台本に無い呼び出しへの既定の答え（栄養推定はそれらしい値、他の JSON は {} にして各機能のフォールバックに任せる） */
+function defaultReply(messages: ChatMessage[], json: boolean): string {
+  if (!json) return DEFAULT_TEXT_REPLY;
+  const system = messages.find((m) => m.role === "system");
+  if (!system || !messageText(system).includes('"items"')) return "{}";
+
+  const user = [...messages].reverse().find((m) => m.role === "user");
+  const text = typeof user?.content === "string" ? user.content.trim() : "";
+  const item = {
+    name: text ? [...text].slice(0, 20).join("") : "写真の食事",
+    portion: "1人前",
+    kcal: 500,
+    protein: 20,
+    fat: 15,
+    carbs: 70,
+    vitaminB6: 0.3,
+    vitaminD: 1,
+    magnesium: 60,
+    iron: 2,
+    zinc: 2,
+  };
+  return JSON.stringify({ items: [item] });
+}
+
+export function createScriptedLlm(script: ScriptEntry[]): LlmClient {
+  const remaining = [...script];
+  return {
+    async complete(messages, { json }) {
+      const prompt = messages.map(messageText).join("\n");
+      const index = remaining.findIndex(
+        (entry) => (typeof entry.reply !== "string") === json && (!entry.match || prompt.includes(entry.match))
+      );
+      const entry = index >= 0 ? remaining.splice(index, 1)[0] : null;
+      const content = entry
+        ? typeof entry.reply === "string" ? entry.reply : JSON.stringify(entry.reply)
+        : defaultReply(messages, json);
+      return {
+        id: "simulator",
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: "simulator",
+        choices: [
+          { index: 0, finish_reason: "stop", logprobs: null, message: { role: "assistant", content, refusal: null } },
+        ],
+      } satisfies ChatCompletion;
+    },
+  };
+}
+
+/** ====== 返信をターミナルに表示する LINE ====== */
+type ConsoleLine = {
+  client: LineClient;
+  // 画像を送ったことにするためのコンテンツ（メッセージID → 中身）
+  contents: Map<string, MessageContent>;
+  // 最後の返信のクイックリプライ（/tap で押せる）
+  buttons(): messagingApi.QuickReplyItem[];
+};
+
+function createConsoleLine(print: (text: string) => void): ConsoleLine {
+  const contents = new Map<string, MessageContent>();
+  let buttons: messagingApi.QuickReplyItem[] = [];
+
+  const client: LineClient = {
+    async deliver(_target, outgoing) {
+      const replies = toReplies(outgoing);
+      for (const reply of replies) {
+        print(`🤖 ${reply.text.replace(/\n/g, "\n   ")}`);
+        if (reply.flex) print("   （カードで表示）");
+      }
+      buttons = replies.flatMap((reply) => reply.quickReply ?? []);
+      if (buttons.length > 0) {
+        print(`   ${buttons.map((item, i) => `[${i + 1}] ${item.action.label}`).join("  ")}`);
+      }
+      return true;
+    },
+    async startLoading() {},
+    async getDisplayName(userId) {
+      return `シミュレーター ${userId}`;
+    },
+    async getMessageContent(messageId) {
+      const content = contents.get(messageId);
+      if (!content) throw new Error(`Unknown message content: ${messageId}`);
+      return content;
+    },
+  };
+  return { client, contents, buttons: () => buttons };
+}
+
+/* ==================================================
+   イベントの組み立て
+================================================== */
+
+let sequence = 0;
+
+function eventBase(userId: string) {
+  sequence++;
+  return {
+    webhookEventId: `sim-${Date.now()}-${sequence}`,
+    timestamp: Date.now(),
+    source: { type: "user" as const, userId },
+    deliveryContext: { isRedelivery: false },
+    mode: "active" as const,
+    replyToken: `sim-reply-${sequence}`,
+  };
+}
+
+function textEvent(userId: string, text: string): WebhookEvent {
+  const base = eventBase(userId);
+  return { ...base, type: "message", message: { type: "text", id: `sim-${sequence}`, text, quoteToken: "" } };
+}
+
+function imageEvent(userId: string, messageId: string): WebhookEvent {
+  return {
+    ...eventBase(userId),
+    type: "message",
+    message: { type: "image", id: messageId, contentProvider: { type: "line" }, quoteToken: "" },
+  };
+}
+
+function audioEvent(userId: string, messageId: string, duration: number): WebhookEvent {
+  return {
+    ...eventBase(userId),
+    type: "message",
+    message: { type: "audio", id: messageId, duration, contentProvider: { type: "line" } },
+  };
+}
+
+function postbackEvent(userId: string, data: string): WebhookEvent {
+  return { ...eventBase(userId), type: "postback", postback: { data } };
+}
+
+function followEvent(userId: string): WebhookEvent {
+  return { ...eventBase(userId), type: "follow" };
+}
+
+function unfollowEvent(userId: string): WebhookEvent {
+  const { replyToken: _replyToken, ...base } = eventBase(userId);
+  return { ...base, type: "unfollow" };
+}
+
+// /voice では話した内容の文字をそのまま音声の中身にし、文字起こしではそれを読み戻す
+const SIMULATED_AUDIO_TYPE = "audio/x-simulator";
+
+const simulatedSpeech: SpeechToText = {
+  async transcribe(audio) {
+    if (audio.contentType !== SIMULATED_AUDIO_TYPE) throw new Error("The simulator can only transcribe /voice input");
+    return audio.data.toString("utf8");
+  },
+};
+
+const IMAGE_TYPES: Record<string, string> = { ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png" };
+
+/* ==================================================
+   REPL
+================================================== */
+
+const USAGE = `使い方: npm run simulate -- [--user <userId>] [--script <file.json>] [--openai] [--verbose]
+
+  --user     メッセージを送るユーザー（既定: U-simulator）
+  --script   偽の LLM の台本（[{"match": "プロンプトに含まれる文字列", "reply": "返信の文" | {JSON の出力}}] の配列）
+  --openai   偽の LLM の代わりに OpenAI を使う（OPENAI_API_KEY が必要）
+  --verbose  [TAG] 付きのログも表示する
+
+保存先は LOG_STORE に従う（未設定ならメモリ上。終了すると消える）。
+標準入力から1行ずつ読むので、会話をファイルにしておいて流し込むこともできる（# で始まる行は無視）。
+
+コマンド:
+  /user <userId>   送るユーザーを切り替える
+  /tap <番号>      最後の返信のボタンを押す
+  /image <path>    写真（jpg / png）を送る
+  /voice <文>      その文を話した音声メッセージを送る
+  /follow          友だち追加
+  /unfollow        ブロック
+  /help            この説明
+  /quit            終了`;
+
+export async function runSimulator(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      user: { type: "string", default: "U-simulator" },
+      script: { type: "string" },
+      openai: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const print = (text: string) => process.stdout.write(`${text}\n`);
+  if (!values.verbose) console.log = console.warn = () => {};
+
+  process.env.LOG_STORE ??= "memory";
+  const script: ScriptEntry[] = values.script ? JSON.parse(await fs.readFile(values.script, "utf8")) : [];
+  const line = createConsoleLine(print);
+  const bot = createBot({
+    store: getLogStore(),
+    line: line.client,
+    llm: values.openai ? undefined : createScriptedLlm(script),
+    speech: simulatedSpeech,
+  });
+
+  let userId = values.user!;
+  // 失敗を隠さないように、やり直しはせずに失敗の返信をそのまま表示する
+  const send = async (event: WebhookEvent) => {
+    const job = bot.eventJob(event, Date.now());
+    if (job) await runJob(job, { maxAttempts: 1 });
+  };
+
+  async function handleLine(input: string): Promise<boolean> {
+    const text = input.trim();
+    if (!text || text.startsWith("#")) return true;
+    if (!process.stdin.isTTY) print(`${userId}> ${text}`);
+
+    const [command, ...args] = text.split(/\s+/);
+    const arg = args.join(" ");
+    if (command === "/quit") return false;
+    if (command === "/help") {
+      print(USAGE);
+    } else if (command === "/user") {
+      if (arg) userId = arg;
+      print(`ユーザー: ${userId}`);
+    } else if (command === "/tap") {
+      const item = line.buttons()[Number(arg) - 1];
+      const action = item?.action as { type: string; data?: string; text?: string } | undefined;
+      if (action?.type === "postback" && action.data) await send(postbackEvent(userId, action.data));
+      else if (action?.type === "message" && action.text) await send(textEvent(userId, action.text));
+      else print("押せるボタンがありません");
+    } else if (command === "/image") {
+      const contentType = IMAGE_TYPES[path.extname(arg).toLowerCase()];
+      if (!contentType) {
+        print("jpg か png のファイルを指定してください");
+      } else {
+        const messageId = `sim-image-${Date.now()}`;
+        line.contents.set(messageId, { data: await fs.readFile(arg), contentType });
+        await send(imageEvent(userId, messageId));
+      }
+    } else if (command === "/voice") {
+      const messageId = `sim-voice-${Date.now()}`;
+      line.contents.set(messageId, { data: Buffer.from(arg, "utf8"), contentType: SIMULATED_AUDIO_TYPE });
+      // 1文字 0.2 秒くらいで話したことにする
+      await send(audioEvent(userId, messageId, [...arg].length * 200));
+    } else if (command === "/follow") {
+      await send(followEvent(userId));
+    } else if (command === "/unfollow") {
+      await send(unfollowEvent(userId));
+    } else {
+      await send(textEvent(userId, text));
+    }
+    return true;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+  const prompt = () => {
+    if (!process.stdin.isTTY) return;
+    rl.setPrompt(`${userId}> `);
+    rl.prompt();
+  };
+  if (process.stdin.isTTY) print("メッセージを入力してください（/help でコマンド一覧）");
+  prompt();
+  for await (const input of rl) {
+    try {
+      if (!(await handleLine(input))) break;
+    } catch (e: unknown) {
+      if (e instanceof Error) {
+        console.error("[SIMULATOR][ERR]", e.message);
+      } else {
+        console.error("[SIMULATOR][ERR]", e);
+      }
+    }
+    prompt();
+  }
+  rl.close();
+}
@@ -0,0 +1,299 @@
+// lib/summaries.ts
+import type { DateRange, ExerciseLogRow, LogStore, MeditationLogRow, MetricKind } from "@/lib/logStore";
+import { callOpenAIWithRetry } from "@/lib/openai";
+import { daysBetween, addDays, currentStreak } from "@/lib/dates";
+import { NUTRIENTS, sumNutrients, type Nutrients } from "@/lib/nutrition";
+import { computeDailyTargets, detectPersistentFlags, formatFlags, percentOf } from "@/lib/targets";
+import { mealRowNutrients } from "@/lib/meals";
+import { PROFILE_HINT } from "@/lib/profile";
+import { exerciseMinutes } from "@/lib/exercise";
+import { meditationMinutes } from "@/lib/meditation";
+import { buildMetricSummary, isMetricKind } from "@/lib/metrics";
+import { mealSummaryCard, textSummaryCard, type MealSummaryCardInput } from "@/lib/flex";
+import { textReply, type Reply } from "@/lib/messages";
+
+export type SummaryCategory = "meal" | "exercise" | "meditation" | "journal" | MetricKind;
+
+const LOG_CATEGORIES = ["meal", "exercise", "meditation", "journal"] as const;
+
+export function isSummaryCategory(value: unknown): value is SummaryCategory {
+  return LOG_CATEGORIES.some((c) => c === value) || isMetricKind(value);
+}
+
+const EMPTY_REPLY = "その期間の記録はありません📭";
+
+/** ====== "ALL" の期間を実データの最初と最後の日付に置き換える ====== */
+function resolveRange(range: DateRange, dates: string[]): DateRange {
+  if (range.start !== "ALL" || range.end !== "ALL") return range;
+  const sorted = dates.filter(Boolean).sort();
+  return { start: sorted[0], end: sorted[sorted.length - 1] };
+}
+
+/* ==================================================
+   食事
+================================================== */
+
+// カードとテキストの両方を組み立てられるように、集計結果とテキストをまとめて返す
+type MealSummary = MealSummaryCardInput & { text: string };
+
+async function summarizeMeals(store: LogStore, userId: string, range: DateRange): Promise<MealSummary | null> {
+  let logs;
+  let start = range.start, end = range.end;
+  if (start === "ALL" && end === "ALL") {
+    logs = await store.getMealLogsByRange(userId, "ALL", "ALL");
+    const actualRange = await store.getMealLogDateRange(userId);
+    if (actualRange) {
+      start = actualRange.start;
+      end = actualRange.end;
+    }
+  } else {
+    logs = await store.getMealLogsByRange(userId, start, end);
+  }
+  if (logs.length === 0) return null;
+
+  const totals = sumNutrients(logs.map(mealRowNutrients));
+  const days = daysBetween(start, end);
+
+  // 目標比と不足・過剰の判定は、記録のある日だけで行う
+  const byDate = new Map<string, Nutrients[]>();
+  for (const row of logs) {
+    byDate.set(row[2], [...(byDate.get(row[2]) ?? []), mealRowNutrients(row)]);
+  }
+  const dailyTotals = [...byDate.values()].map(sumNutrients);
+  const loggedDays = dailyTotals.length;
+
+  const profile = await store.getProfile(userId);
+  const targets = profile ? computeDailyTargets(profile) : null;
+
+  const lines = NUTRIENTS.map(({ key, label, unit }) => {
+    const average = `平均 ${(totals[key] / days).toFixed(1)} ${unit}/日`;
+    const progress = targets ? `・目標比 ${percentOf(totals[key] / loggedDays, targets[key])}%` : "";
+    return `${label}: ${totals[key].toFixed(1)} ${unit}（${average}${progress}）`;
+  });
+  const flags = targets ? detectPersistentFlags(dailyTotals, targets) : [];
+
+  const notes: string[] = [];
+  let summaryText = `${start} 〜 ${end} のサマリー\n` + lines.join("\n");
+  if (targets) {
+    summaryText += `\n（目標比は記録のある ${loggedDays} 日の平均）`;
+    if (flags.length > 0) {
+      summaryText += `\n\n${formatFlags(flags)}`;
+      notes.push(formatFlags(flags));
+    }
+  }
+
+  const balance = formatEnergyBalance(totals.kcal, await store.getExerciseLogsByRange(userId, start, end), days);
+  if (balance) {
+    summaryText += `\n\n${balance}`;
+    notes.push(balance);
+  }
+
+  const feedback = await callOpenAIWithRetry(
+    [
+      {
+        role: "system",
+        content:
+          "あなたは管理栄養士です。以下の集計結果を参考に、栄養バランスについて短くフィードバックしてください。" +
+          "目標比や不足・過剰の警告がある場合は、それを踏まえて具体的な食品の提案をしてください。",
+      },
+      { role: "user", content: summaryText },
+    ],
+    { maxRetries: 1, max_tokens: 300 }
+  );
+  const feedbackText = feedback.choices?.[0]?.message?.content ?? "";
+  if (!targets) notes.push(PROFILE_HINT);
+  const hint = targets ? "" : `\n\n${PROFILE_HINT}`;
+  return {
+    start,
+    end,
+    days,
+    loggedDays,
+    totals,
+    targets,
+    notes,
+    feedback: feedbackText,
+    text: `${summaryText}\n\n💡 フィードバック:\n${feedbackText}${hint}`,
+  };
+}
+
+export async function buildMealSummary(store: LogStore, userId: string, range: DateRange): Promise<string> {
+  const summary = await summarizeMeals(store, userId, range);
+  return summary ? summary.text : EMPTY_REPLY;
+}
+
+/** ====== エネルギー収支（摂取 − 運動による消費）。消費カロリーの記録が無ければ null ====== */
+function formatEnergyBalance(intakeKcal: number, exercise: ExerciseLogRow[], days: number): string | null {
+  const burned = exercise.reduce((sum, row) => sum + (row[12] ?? 0), 0);
+  if (burned === 0) return null;
+  const net = Math.round(intakeKcal - burned);
+  return (
+    `エネルギー収支: 摂取 ${Math.round(intakeKcal)} kcal − 運動 ${burned} kcal = ${net} kcal` +
+    `（平均 ${Math.round(net / days)} kcal/日）`
+  );
+}
+
+/* ==================================================
+   運動・瞑想（セッション集計）
+================================================== */
+
+export type SessionStats = {
+  sessions: number;
+  totalMinutes: number;
+  averageMinutes: number; // 時間が分かるセッションのみで平均
+  activeDays: number;
+  longestStreak: number; // 連続で記録のある日数の最大値
+};
+
+/** minutesOf で各セッションの分数を取り出す（分からなければ null） */
+export function computeSessionStats<T>(
+  rows: T[],
+  dateOf: (row: T) => string,
+  minutesOf: (row: T) => number | null
+): SessionStats {
+  const minutes = rows.map(minutesOf).filter((m): m is number => m !== null);
+  const totalMinutes = minutes.reduce((a, b) => a + b, 0);
+  const days = [...new Set(rows.map(dateOf).filter(Boolean))].sort();
+
+  let longestStreak = 0;
+  let streak = 0;
+  for (let i = 0; i < days.length; i++) {
+    streak = i > 0 && addDays(days[i - 1], 1) === days[i] ? streak + 1 : 1;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  return {
+    sessions: rows.length,
+    totalMinutes,
+    averageMinutes: minutes.length > 0 ? Math.round(totalMinutes / minutes.length) : 0,
+    activeDays: days.length,
+    longestStreak,
+  };
+}
+
+export async function buildSessionSummary(
+  store: LogStore,
+  userId: string,
+  category: "exercise" | "meditation",
+  range: DateRange
+): Promise<string> {
+  const rows: ExerciseLogRow[] | MeditationLogRow[] =
+    category === "exercise"
+      ? await store.getExerciseLogsByRange(userId, range.start, range.end)
+      : await store.getMeditationLogsByRange(userId, range.start, range.end);
+  if (rows.length === 0) return EMPTY_REPLY;
+
+  const { start, end } = resolveRange(range, rows.map((r) => r[0]));
+  const stats =
+    category === "exercise"
+      ? computeSessionStats(rows as ExerciseLogRow[], (r) => r[0], exerciseMinutes)
+      : computeSessionStats(rows as MeditationLogRow[], (r) => r[0], meditationMinutes);
+  const days = daysBetween(start, end);
+  const label = category === "exercise" ? "運動" : "瞑想";
+  const icon = category === "exercise" ? "💪" : "🧘";
+
+  const text =
+    `${start} 〜 ${end} の${label}サマリー${icon}\n` +
+    `回数: ${stats.sessions} 回\n` +
+    `合計時間: ${stats.totalMinutes} 分（1回平均 ${stats.averageMinutes} 分）\n` +
+    `実施日数: ${stats.activeDays} / ${days} 日\n` +
+    `最長連続記録: ${stats.longestStreak} 日`;
+  return category === "exercise"
+    ? `${text}\n${formatExerciseTotals(rows as ExerciseLogRow[])}`
+    : `${text}\n${formatMeditationTotals(rows as MeditationLogRow[], end)}`;
+}
+
+/** 運動の種目別の回数と、距離・消費カロリーの合計 */
+function formatExerciseTotals(rows: ExerciseLogRow[]): string {
+  const byActivity = new Map<string, number>();
+  for (const row of rows) byActivity.set(row[5], (byActivity.get(row[5]) ?? 0) + 1);
+  const distance = rows.reduce((sum, row) => sum + (row[7] ?? 0), 0);
+  const burned = rows.reduce((sum, row) => sum + (row[12] ?? 0), 0);
+
+  const lines = [`種目: ${[...byActivity].map(([name, count]) => `${name} ${count}回`).join("、")}`];
+  if (distance > 0) lines.push(`合計距離: ${Math.round(distance * 10) / 10} km`);
+  if (burned > 0) lines.push(`推定消費カロリー: ${burned} kcal`);
+  return lines.join("\n");
+}
+
+/** 瞑想の手法別の回数・時間と、期間の最終日時点の連続記録 */
+function formatMeditationTotals(rows: MeditationLogRow[], end: string): string {
+  const byTechnique = new Map<string, { count: number; minutes: number }>();
+  for (const row of rows) {
+    const t = byTechnique.get(row[5]) ?? { count: 0, minutes: 0 };
+    byTechnique.set(row[5], { count: t.count + 1, minutes: t.minutes + (meditationMinutes(row) ?? 0) });
+  }
+  const techniques = [...byTechnique].map(([name, t]) => `${name} ${t.count}回（${t.minutes}分）`).join("、");
+  const streak = currentStreak(rows.map((r) => r[0]), end);
+  return `手法: ${techniques}\n${end} 時点の連続記録: ${streak} 日`;
+}
+
+/* ==================================================
+   ジャーナル（LLM によるダイジェスト）
+================================================== */
+
+const JOURNAL_PROMPT_LIMIT = 6000; // プロンプトに含める本文の最大文字数（新しい順に詰める）
+
+export async function buildJournalSummary(store: LogStore, userId: string, range: DateRange): Promise<string> {
+  const rows = await store.getJournalLogsByRange(userId, range.start, range.end);
+  if (rows.length === 0) return EMPTY_REPLY;
+
+  const { start, end } = resolveRange(range, rows.map((r) => r[0]));
+  const lines: string[] = [];
+  let length = 0;
+  for (const row of [...rows].reverse()) {
+    const line = `${row[0]} ${row[1]}${row[5] !== null ? ` [気分${row[5]}]` : ""}: ${row[2]}`;
+    if (length + line.length > JOURNAL_PROMPT_LIMIT) break;
+    lines.unshift(line);
+    length += line.length;
+  }
+
+  const digest = await callOpenAIWithRetry(
+    [
+      {
+        role: "system",
+        content:
+          "あなたは優しめの健康コーチです。以下はユーザーのジャーナルです。" +
+          "よく出てくるテーマ、気分の傾向と変化、気づきを短くまとめ、最後に一言だけ前向きな声かけをしてください。",
+      },
+      { role: "user", content: lines.join("\n") },
+    ],
+    { maxRetries: 1, max_tokens: 400 }
+  );
+  const digestText = digest.choices?.[0]?.message?.content ?? "";
+
+  const moods = rows.map((r) => r[5]).filter((m): m is number => m !== null);
+  const moodText =
+    moods.length > 0 ? `\n平均の気分: ${(moods.reduce((a, b) => a + b, 0) / moods.length).toFixed(1)} / 5` : "";
+  return `${start} 〜 ${end} のジャーナル（${rows.length} 件）📓${moodText}\n\n${digestText}`;
+}
+
+/** ====== カテゴリ別のサマリー ====== */
+export async function buildSummary(
+  store: LogStore,
+  userId: string,
+  category: SummaryCategory,
+  range: DateRange
+): Promise<string> {
+  if (category === "meal") return buildMealSummary(store, userId, range);
+  if (category === "journal") return buildJournalSummary(store, userId, range);
+  if (isMetricKind(category)) return buildMetricSummary(store, userId, category, range);
+  return buildSessionSummary(store, userId, category, range);
+}
+
+/** ====== カテゴリ別のサマリー（カード付きの返信） ======
+ * 食事は集計値から栄養素のバー付きカードを作り、それ以外はテキストをカードに整形する
+ */
+export async function buildSummaryReply(
+  store: LogStore,
+  userId: string,
+  category: SummaryCategory,
+  range: DateRange
+): Promise<Reply> {
+  if (category === "meal") {
+    const summary = await summarizeMeals(store, userId, range);
+    if (!summary) return textReply(EMPTY_REPLY);
+    return { text: summary.text, flex: mealSummaryCard(summary) };
+  }
+  const text = await buildSummary(store, userId, category, range);
+  return text === EMPTY_REPLY ? textReply(text) : { text, flex: textSummaryCard(text) };
+}
@@ -0,0 +1,125 @@
+// lib/targets.ts
+import type { ActivityLevel, Goal, ProfileRow, Sex } from "@/lib/logStore";
+import { NUTRIENTS, type NutrientKey, type Nutrients } from "@/lib/nutrition";
+
+/** ====== 1日あたりの目標値 ====== */
+export type NutrientTarget = {
+  target: number; // 目標量（推奨量・目安量など）
+  upper?: number; // これを超えたら過剰（耐容上限量や目標エネルギー比の上限）
+};
+
+export type DailyTargets = Record<NutrientKey, NutrientTarget>;
+
+/* ==================================================
+   日本人の食事摂取基準（2020年版）の成人値をもとにした簡易計算
+   ※ 18歳未満は18〜29歳の値で代用する
+================================================== */
+
+// 基礎代謝基準値 (kcal/kg/日)
+function basalRate(age: number, sex: Sex): number {
+  const table: [number, number, number][] = [
+    // [上限年齢, 男性, 女性]
+    [29, 23.7, 22.1],
+    [49, 22.5, 21.9],
+    [64, 21.8, 20.7],
+    [74, 21.6, 20.7],
+    [Infinity, 21.5, 20.7],
+  ];
+  const [, male, female] = table.find(([maxAge]) => age <= maxAge)!;
+  return sex === "male" ? male : female;
+}
+
+const ACTIVITY_FACTOR: Record<ActivityLevel, number> = { low: 1.5, moderate: 1.75, high: 2.0 };
+const GOAL_FACTOR: Record<Goal, number> = { cut: 0.85, maintain: 1.0, gain: 1.1 };
+
+function magnesiumRda(age: number, sex: Sex): number {
+  if (sex === "male") return age <= 29 ? 340 : age <= 64 ? 370 : 350;
+  return age <= 29 ? 270 : age <= 64 ? 290 : 280;
+}
+
+/** プロフィールから1日の目標値を計算する */
+export function computeDailyTargets(profile: ProfileRow): DailyTargets {
+  const [, age, sex, weight, activity, goal] = profile;
+  const male = sex === "male";
+
+  const kcal = Math.round(basalRate(age, sex) * weight * ACTIVITY_FACTOR[activity] * GOAL_FACTOR[goal]);
+  // 減量・増量中は筋量維持のため体重あたり 1.6g、それ以外は推奨量と体重あたり 1.0g の大きい方
+  const protein = Math.round(goal === "maintain" ? Math.max(male ? 65 : 50, weight * 1.0) : weight * 1.6);
+
+  return {
+    kcal: { target: kcal, upper: Math.round(kcal * 1.15) },
+    // タンパク質の上限はエネルギー比 20%（高タンパク目標のときは目標の 1.3 倍まで許容）
+    protein: { target: protein, upper: Math.max(Math.round((kcal * 0.2) / 4), Math.round(protein * 1.3)) },
+    // 脂質は目標エネルギー比 20〜30%、炭水化物は 50〜65% の中央付近を目標にする
+    fat: { target: Math.round((kcal * 0.25) / 9), upper: Math.round((kcal * 0.3) / 9) },
+    carbs: { target: Math.round((kcal * 0.575) / 4), upper: Math.round((kcal * 0.65) / 4) },
+    vitaminB6: { target: male ? 1.4 : 1.1, upper: male ? 55 : 45 },
+    vitaminD: { target: 8.5, upper: 100 },
+    magnesium: { target: magnesiumRda(age, sex) },
+    iron: { target: male ? 7.5 : age < 50 ? 10.5 : 6.5, upper: male ? 50 : 40 },
+    zinc: { target: male ? 11 : 8, upper: male ? 40 : 35 },
+  };
+}
+
+/* ==================================================
+   目標に対する達成度
+================================================== */
+
+export function percentOf(amount: number, t: NutrientTarget): number {
+  return t.target > 0 ? Math.round((amount / t.target) * 100) : 0;
+}
+
+// 目標の何%未満を不足とみなすか
+const DEFICIT_RATIO = 0.7;
+// 継続的とみなす割合（記録のある日のうち、この割合以上の日で不足・過剰なら警告）
+const PERSISTENT_RATIO = 0.6;
+
+export type NutrientFlag = { key: NutrientKey; kind: "deficit" | "excess"; days: number; totalDays: number };
+
+/** 日ごとの合計から、継続的な不足・過剰を検出する（記録のある日のみ対象） */
+export function detectPersistentFlags(dailyTotals: Nutrients[], targets: DailyTargets): NutrientFlag[] {
+  const totalDays = dailyTotals.length;
+  if (totalDays === 0) return [];
+
+  const flags: NutrientFlag[] = [];
+  for (const { key } of NUTRIENTS) {
+    const t = targets[key];
+    const deficitDays = dailyTotals.filter((d) => d[key] < t.target * DEFICIT_RATIO).length;
+    const excessDays = t.upper === undefined ? 0 : dailyTotals.filter((d) => d[key] > t.upper!).length;
+
+    if (deficitDays / totalDays >= PERSISTENT_RATIO) {
+      flags.push({ key, kind: "deficit", days: deficitDays, totalDays });
+    } else if (excessDays / totalDays >= PERSISTENT_RATIO) {
+      flags.push({ key, kind: "excess", days: excessDays, totalDays });
+    }
+  }
+  return flags;
+}
+
+export function formatFlags(flags: NutrientFlag[]): string {
+  return flags
+    .map(({ key, kind, days, totalDays }) => {
+      const { label } = NUTRIENTS.find((n) => n.key === key)!;
+      return kind === "deficit"
+        ? `⚠️ ${label}が不足気味（${totalDays}日中${days}日が目標の${DEFICIT_RATIO * 100}%未満）`
+        : `⚠️ ${label}が多すぎる日が続いています（${totalDays}日中${days}日が上限超え）`;
+    })
+    .join("\n");
+}
+
+/** 1食分の栄養素を、1日の目標に対する割合と今日の累計つきで表示する */
+export function formatMealProgress(meal: Nutrients, today: Nutrients, targets: DailyTargets): string {
+  return NUTRIENTS.map(({ key, label, unit }) => {
+    const t = targets[key];
+    const over = t.upper !== undefined && today[key] > t.upper ? " ⚠️上限超え" : "";
+    return `${label}: ${meal[key]} ${unit}（目標の${percentOf(meal[key], t)}%・今日の累計 ${percentOf(today[key], t)}%${over}）`;
+  }).join("\n");
+}
+
+/** 目標値の一覧（プロフィール確認用） */
+export function formatTargets(targets: DailyTargets): string {
+  return NUTRIENTS.map(({ key, label, unit }) => {
+    const { target, upper } = targets[key];
+    return `${label}: ${target} ${unit}${upper !== undefined ? `（上限 ${upper} ${unit}）` : ""}`;
+  }).join("\n");
+}
@@ -0,0 +1,364 @@
+// lib/transfer.ts
+import type {
+  ExerciseLogRow,
+  JournalLogRow,
+  LogStore,
+  MealLogRow,
+  MeditationLogRow,
+  MetricKind,
+  MetricLogRow,
+  SimpleLogKind,
+} from "@/lib/logStore";
+import { NUTRIENTS } from "@/lib/nutrition";
+import { newEntryId } from "@/lib/entries";
+import { normalizeExerciseRow } from "@/lib/exercise";
+import { normalizeMeditationRow } from "@/lib/meditation";
+import { normalizeJournalRow } from "@/lib/journal";
+import { getMetric, isMetricKind, METRIC_KINDS, normalizeMetricRow } from "@/lib/metrics";
+
+/* ==================================================
+   ログのエクスポート / インポート（CSV・JSON）
+   列の並びはシートと同じ（MealLogRow / SimpleLogRow + 詳細列）
+================================================== */
+
+/** ====== 型定義 ====== */
+
+export type TransferKind = "meal" | SimpleLogKind | MetricKind;
+export type TransferRow = MealLogRow | ExerciseLogRow | MeditationLogRow | JournalLogRow | MetricLogRow;
+
+export type ImportError = { row: number; message: string };
+
+export type ImportReport = {
+  kind: TransferKind;
+  imported: number;
+  duplicates: number;
+  errors: ImportError[];
+};
+
+export const TRANSFER_KINDS: TransferKind[] = ["meal", "exercise", "meditation", "journal", ...METRIC_KINDS];
+
+// 1回のリクエストで取り込める行数の上限（Sheets API の1リクエストに収まる程度）
+export const MAX_IMPORT_ROWS = 5000;
+
+const BASE_COLUMNS = ["Date", "Time", "Text", "UserId", "Id"];
+
+const COLUMNS: Record<"meal" | SimpleLogKind, string[]> = {
+  meal: ["Date", "Time", "MealDate", "MealType", "Input", ...NUTRIENTS.map((n) => n.key), "UserId", "Id"],
+  exercise: [...BASE_COLUMNS, "Activity", "DurationMin", "DistanceKm", "Sets", "Reps", "WeightKg", "Intensity", "Kcal"],
+  meditation: [...BASE_COLUMNS, "Technique", "DurationMin", "StartedAt", "EndedAt"],
+  journal: [...BASE_COLUMNS, "Mood", "Emotions", "Tags"],
+};
+
+// 空欄か 0 以上の数値でなければならない列
+const NUMERIC_COLUMNS: Record<"meal" | SimpleLogKind, string[]> = {
+  meal: NUTRIENTS.map((n) => n.key),
+  exercise: ["DurationMin", "DistanceKm", "Sets", "Reps", "WeightKg", "Kcal"],
+  meditation: ["DurationMin"],
+  journal: ["Mood"],
+};
+
+export function isTransferKind(value: unknown): value is TransferKind {
+  return TRANSFER_KINDS.some((k) => k === value);
+}
+
+export function columnsOf(kind: TransferKind): string[] {
+  if (isMetricKind(kind)) return [...BASE_COLUMNS, ...getMetric(kind).fields.map((f) => f.key)];
+  return COLUMNS[kind];
+}
+
+function numericColumnsOf(kind: TransferKind): string[] {
+  if (isMetricKind(kind)) return getMetric(kind).fields.filter((f) => !f.time).map((f) => f.key);
+  return NUMERIC_COLUMNS[kind];
+}
+
+// 食事ログだけ UserId と Id の位置が違う
+function userIdIndex(kind: TransferKind): number {
+  return kind === "meal" ? 14 : 3;
+}
+
+function idIndex(kind: TransferKind): number {
+  return kind === "meal" ? 15 : 4;
+}
+
+/** 重複判定のキー（同じ日時に同じ内容の記録は同じものとみなす） */
+function contentKey(kind: TransferKind, row: TransferRow): string {
+  return kind === "meal" ? `${row[2]}|${row[1]}|${row[4]}` : `${row[0]}|${row[1]}|${row[2]}`;
+}
+
+/* ==================================================
+   読み出し
+================================================== */
+
+/** start/end は YYYY-MM-DD か "ALL" */
+export async function fetchLogs(
+  store: LogStore,
+  kind: TransferKind,
+  userId: string,
+  start: string,
+  end: string
+): Promise<TransferRow[]> {
+  if (kind === "meal") return store.getMealLogsByRange(userId, start, end);
+  if (kind === "exercise") return store.getExerciseLogsByRange(userId, start, end);
+  if (kind === "meditation") return store.getMeditationLogsByRange(userId, start, end);
+  if (kind === "journal") return store.getJournalLogsByRange(userId, start, end);
+  return store.getMetricLogsByRange(kind, userId, start, end);
+}
+
+/** シートの文字列で返ってくる食事の栄養素を数値に揃える */
+function exportValues(kind: TransferKind, row: TransferRow): unknown[] {
+  if (kind !== "meal") return [...row];
+  return row.map((v, i) => (i >= 5 && i <= 13 ? Number(v || 0) : v));
+}
+
+export function toRecords(kind: TransferKind, rows: TransferRow[]): Record<string, unknown>[] {
+  const columns = columnsOf(kind);
+  return rows.map((row) => {
+    const values = exportValues(kind, row);
+    return Object.fromEntries(columns.map((c, i) => [c, values[i] ?? null]));
+  });
+}
+
+// 表計算ソフトが数式として実行しないように、これらで始まる文字列のセルは先頭に ' を付ける（取り込み時に外す）
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  let text = Array.isArray(value) ? value.join(",") : value === null || value === undefined ? "" : String(value);
+  if (typeof value !== "number" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** ヘッダー付き CSV（Excel で文字化けしないよう BOM を付ける） */
+export function toCsv(kind: TransferKind, rows: TransferRow[]): string {
+  const lines = [columnsOf(kind), ...rows.map((row) => exportValues(kind, row))].map((values) =>
+    values.map(csvField).join(",")
+  );
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/* ==================================================
+   取り込み
+================================================== */
+
+/** RFC 4180 の CSV を行の配列にする（空行は飛ばす） */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((v) => v !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((v) => v !== "")) rows.push(row);
+  return rows;
+}
+
+/** CSV の行（1行目がヘッダー）を列名つきのレコードにする。エクスポートで数式よけに付けた ' は外す */
+export function csvToRecords(rows: string[][]): Record<string, string>[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+  return body.map((values) =>
+    Object.fromEntries(header.map((name, i) => [name.trim(), (values[i] ?? "").replace(/^'(?=[=+\-@\t\r])/, "")]))
+  );
+}
+
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  // 2/30 のような存在しない日付は別の日に繰り越されるので弾く
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
+
+/** "7:05" → "07:05"。空欄は "00:00"、解釈できなければ null */
+function normalizeTime(value: string): string | null {
+  if (!value) return "00:00";
+  const m = value.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return null;
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+/**
+ * レコード（列名つきのオブジェクト、または列順の配列）を検証して行にする。
+ * UserId は取り込むユーザーで上書きし、Id が無ければ新しく振る。
+ * JSON では null や数値のレコードも来うるので、それも行のエラーにする。
+ */
+export function recordToRow(
+  kind: TransferKind,
+  record: unknown,
+  userId: string
+): { row: TransferRow } | { error: string } {
+  if (typeof record !== "object" || record === null) return { error: "Record must be an object or an array" };
+  const columns = columnsOf(kind);
+  const values = Array.isArray(record) ? [...record] : columns.map((c) => (record as Record<string, unknown>)[c]);
+  const text = (i: number) => (values[i] === null || values[i] === undefined ? "" : String(values[i]).trim());
+
+  const date = text(0);
+  if (!isValidDate(date)) return { error: `Invalid Date: "${date}"` };
+  const time = normalizeTime(text(1));
+  if (!time) return { error: `Invalid Time: "${text(1)}"` };
+  values[0] = date;
+  values[1] = time;
+
+  for (const name of numericColumnsOf(kind)) {
+    const i = columns.indexOf(name);
+    if (text(i) === "") continue;
+    const n = Number(text(i));
+    if (!Number.isFinite(n) || n < 0) return { error: `${name} must be a non-negative number: "${text(i)}"` };
+  }
+
+  values[userIdIndex(kind)] = userId;
+  values[idIndex(kind)] = text(idIndex(kind)) || newEntryId();
+
+  if (kind === "meal") {
+    const mealDate = text(2) || date;
+    if (!isValidDate(mealDate)) return { error: `Invalid MealDate: "${mealDate}"` };
+    if (!text(4)) return { error: "Input is empty" };
+    const row = columns.map((_, i) => text(i)) as unknown[];
+    row[2] = mealDate;
+    for (let i = 5; i <= 13; i++) row[i] = Number(text(i) || 0);
+    return { row: row as MealLogRow };
+  }
+
+  if (!text(2)) return { error: "Text is empty" };
+  if (kind === "exercise") {
+    if (text(11) && !["low", "moderate", "high"].includes(text(11))) {
+      return { error: `Intensity must be low, moderate or high: "${text(11)}"` };
+    }
+    return { row: normalizeExerciseRow(values) };
+  }
+  if (kind === "meditation") return { row: normalizeMeditationRow(values) };
+  if (kind === "journal") {
+    const mood = text(5);
+    if (mood && ![1, 2, 3, 4, 5].includes(Number(mood))) return { error: `Mood must be 1-5: "${mood}"` };
+    return { row: normalizeJournalRow(values) };
+  }
+
+  const row = normalizeMetricRow(getMetric(kind), values);
+  if (row.slice(5).every((v) => v === null)) return { error: "No metric values" };
+  return { row };
+}
+
+async function appendLogs(store: LogStore, kind: TransferKind, rows: TransferRow[]): Promise<void> {
+  if (kind === "meal") return store.appendMealLogs(rows as MealLogRow[]);
+  if (kind === "exercise") return store.appendExerciseLogs(rows as ExerciseLogRow[]);
+  if (kind === "meditation") return store.appendMeditationLogs(rows as MeditationLogRow[]);
+  if (kind === "journal") return store.appendJournalLogs(rows as JournalLogRow[]);
+  return store.appendMetricLogs(kind, rows as MetricLogRow[]);
+}
+
+/**
+ * ====== レコードを検証し、既存の記録と重複しないものだけをまとめて追加する ======
+ * 記録IDが同じもの、同じ日時に同じ内容のものは重複とみなす。
+ * rowNumberOf でエラーに付ける行番号を決める（CSV ならヘッダーを含めた行番号）。
+ */
+export async function importRecords(
+  store: LogStore,
+  userId: string,
+  kind: TransferKind,
+  records: unknown[],
+  { dryRun = false, rowNumberOf = (i: number) => i + 1 }: { dryRun?: boolean; rowNumberOf?: (i: number) => number } = {}
+): Promise<ImportReport> {
+  const existing = await fetchLogs(store, kind, userId, "ALL", "ALL");
+  const ids = new Set(existing.map((row) => String(row[idIndex(kind)])));
+  const keys = new Set(existing.map((row) => contentKey(kind, row)));
+
+  const report: ImportReport = { kind, imported: 0, duplicates: 0, errors: [] };
+  const rows: TransferRow[] = [];
+  records.forEach((record, i) => {
+    const result = recordToRow(kind, record, userId);
+    if ("error" in result) {
+      report.errors.push({ row: rowNumberOf(i), message: result.error });
+      return;
+    }
+    const id = String(result.row[idIndex(kind)]);
+    const key = contentKey(kind, result.row);
+    if (ids.has(id) || keys.has(key)) {
+      report.duplicates++;
+      return;
+    }
+    ids.add(id);
+    keys.add(key);
+    rows.push(result.row);
+  });
+
+  if (!dryRun) await appendLogs(store, kind, rows);
+  report.imported = rows.length;
+  console.log(
+    "[IMPORT]",
+    kind,
+    `imported=${rows.length} duplicates=${report.duplicates} errors=${report.errors.length}${dryRun ? " (dry run)" : ""}`
+  );
+  return report;
+}
+
+/* ==================================================
+   取り込むファイルの解釈
+================================================== */
+
+export type ImportBatch = {
+  kind: TransferKind;
+  records: unknown[];
+  rowNumberOf: (i: number) => number;
+};
+
+/** 入力が不正なとき（ステータス 400 で返す） */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+/**
+ * JSON はエクスポートと同じ形（{ logs: { meal: [...], exercise: [...] } }）。
+ * CSV は1種類ずつで、kind の指定が必要。
+ */
+export function parseImportText(text: string, format: "csv" | "json", kind: string | null): ImportBatch[] {
+  if (format === "csv") {
+    if (!isTransferKind(kind)) throw new ImportFormatError(`kind must be one of ${TRANSFER_KINDS.join(", ")}`);
+    const records = csvToRecords(parseCsv(text));
+    return [{ kind, records, rowNumberOf: (i) => i + 2 }];
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError("Invalid JSON");
+  }
+  const logs = (body as { logs?: unknown })?.logs;
+  if (!logs || typeof logs !== "object") throw new ImportFormatError('JSON must have a "logs" object');
+
+  const batches: ImportBatch[] = [];
+  for (const [name, records] of Object.entries(logs)) {
+    if (!isTransferKind(name)) throw new ImportFormatError(`Unknown kind: ${name}`);
+    if (!Array.isArray(records)) throw new ImportFormatError(`logs.${name} must be an array`);
+    batches.push({ kind: name, records, rowNumberOf: (i) => i + 1 });
+  }
+  return batches;
+}
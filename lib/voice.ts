@@ -0,0 +1,53 @@
+// lib/voice.ts
+import { toFile } from "openai";
+import type { LineContentClient, MessageContent } from "@/lib/line";
+import { getOpenAIClient } from "@/lib/openai";
+
+/* ==================================================
+   音声メッセージの文字起こし
+   LINE から音声（m4a）を取得して文字にし、あとは入力した文と同じように分類・記録する
+================================================== */
+
+// 長い音声は文字起こしに時間と費用がかかるので受け付けない（LINE の duration はミリ秒）
+export const MAX_VOICE_DURATION_MS = 2 * 60 * 1000;
+
+/** ====== 文字起こしの差し替え口（シミュレーターでは入力した文をそのまま返す実装を渡す） ====== */
+export interface SpeechToText {
+  transcribe(audio: MessageContent): Promise<string>;
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/m4a": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/mp4": "m4a",
+  "audio/aac": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+};
+
+export const openAISpeechToText: SpeechToText = {
+  async transcribe(audio) {
+    // ファイル名の拡張子で形式が判断されるので、Content-Type から付ける（LINE の音声は m4a）
+    const contentType = audio.contentType.split(";")[0].trim();
+    const file = await toFile(audio.data, `voice.${AUDIO_EXTENSIONS[contentType] ?? "m4a"}`, { type: contentType });
+    const result = await getOpenAIClient().audio.transcriptions.create({
+      file,
+      model: "gpt-4o-mini-transcribe",
+      language: "ja",
+    });
+    return result.text;
+  },
+};
+
+/** 音声メッセージを文字にする（空白はまとめる）。聞き取れなかったら "" */
+export async function transcribeVoiceMessage(
+  messageId: string,
+  { content, speech }: { content: LineContentClient; speech: SpeechToText }
+): Promise<string> {
+  const audio = await content.getMessageContent(messageId);
+  const transcript = (await speech.transcribe(audio)).replace(/\s+/g, " ").trim();
+  console.log("[VOICE][TRANSCRIPT]", audio.data.length, transcript.length);
+  return transcript;
+}
@@ -0,0 +1,11 @@
+// scripts/simulate.mjs
+// ターミナルのチャットシミュレーター（lib/simulator.ts）を TypeScript のまま動かす
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { createJiti } from "jiti";
+
+const root = dirname(dirname(fileURLToPath(import.meta.url)));
+const jiti = createJiti(import.meta.url, { alias: { "@": root } });
+
+const { runSimulator } = await jiti.import("@/lib/simulator");
+await runSimulator(process.argv.slice(2));